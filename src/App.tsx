@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
 import {
   StencilCanvas,
   type StencilCanvasHandle,
@@ -7,12 +7,57 @@ import { INKS, PRESETS } from "./presets";
 import {
   loadImage,
   getImageData,
+  resolveAllInkSettings,
+  resolvePrintOrder,
+  resolveScreenAngles,
+  screenAngleReport,
+  type InkAngleReport,
+  type InkSettings,
   type StencilColor,
   type StencilOptions,
   type HalftoneMode,
   type ColorMode,
+  type DiffusionKernel,
+  type DotShape,
+  type HalftonePattern,
+  type InkOpacityClass,
+  type MixingModel,
+  type OrderedMatrix,
+  type PaperStock,
 } from "./lib/stencil";
-import { Download, Info, Moon, RotateCcw, Sun } from "lucide-react";
+import { parseThresholdMatrix, patternFromImageData } from "./lib/halftone";
+import { randomSeed } from "./lib/random";
+import { runStencilWorker } from "./lib/worker";
+import { createTiledRenderer } from "./lib/tiledRenderer";
+import { plateFileName, type PlateImage } from "./lib/plates";
+import type { PaletteSuggestion } from "./lib/palette";
+import { createZip } from "./lib/zip";
+import { canvasToPng, canvasToPngBlob, downloadBlob, pixelsToCanvas } from "./lib/download";
+import { PDF_PAGE_SIZES, type PdfPageSize } from "./lib/pdf";
+import { needsRasterDots, needsRasterPlates } from "./lib/svg";
+import {
+  mmToUnits,
+  outputPixelSize,
+  printSize,
+  rulingCellSize,
+  screenPitch,
+  screenRuling,
+  type OutputSpec,
+} from "./lib/output";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Dices,
+  Download,
+  FileDown,
+  Info,
+  Layers,
+  Moon,
+  PenTool,
+  RotateCcw,
+  Sparkles,
+  Sun,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -72,9 +117,84 @@ function useTheme() {
 
 const SAMPLE_IMAGE = `${import.meta.env.BASE_URL}sample.jpg`;
 
+/** 1x 出力の幅 (px)。dotSize などの長さ系パラメータはこの幅を基準にする */
+const BASE_WIDTH = 600;
+
+/** 線数指定のプレビューを描画する最大幅 (px)。これより大きい書き出しは縮小して描画する */
+const MAX_RULING_PREVIEW_WIDTH = 2000;
+/** 網点として見分けられるセルの最小サイズ (px) */
+const MIN_CELL_PX = 3;
+
 const inkEntries = Object.entries(INKS);
+const inkLibrary: StencilColor[] = Object.values(INKS);
+
+/** パレット提案で画像を解析するときの幅 (px) */
+const SUGGEST_WIDTH = 200;
+/** パレット提案で選べるインクの数 */
+const SUGGEST_INK_COUNTS = [1, 2, 3, 4];
+const pdfPageSizeEntries = Object.entries(PDF_PAGE_SIZES);
+
+const PAPER_STOCKS: { value: PaperStock; label: string }[] = [
+  { value: "none", label: "No dot gain" },
+  { value: "coated", label: "Coated" },
+  { value: "uncoated", label: "Uncoated" },
+  { value: "newsprint", label: "Newsprint" },
+];
+
+const OPACITY_CLASSES: { value: InkOpacityClass; label: string }[] = [
+  { value: "transparent", label: "Transparent" },
+  { value: "semi-opaque", label: "Semi-opaque" },
+  { value: "opaque", label: "Opaque" },
+];
+
+/** 線数指定で書き出すときの解像度の選択肢 */
+const OUTPUT_DPIS = [150, 200, 300];
 const presetEntries = Object.entries(PRESETS);
 
+const HALFTONE_MODES: { value: HalftoneMode; label: string }[] = [
+  { value: "fm", label: "Dot Density" },
+  { value: "am", label: "Dot Size" },
+  { value: "diffusion", label: "Diffusion" },
+  { value: "ordered", label: "Ordered" },
+  { value: "pattern", label: "Pattern" },
+  { value: "hybrid", label: "Hybrid AM/FM" },
+  { value: "solid", label: "Solid" },
+  { value: "levels", label: "Tint Levels" },
+];
+
+/** パターンタイルの長辺の上限 (px)。大きな画像は縮小して使う */
+const MAX_PATTERN_SIZE = 128;
+
+const halftoneModeLabel = (mode: HalftoneMode) =>
+  HALFTONE_MODES.find((m) => m.value === mode)?.label ?? mode;
+
+const DOT_SHAPES: { value: DotShape; label: string }[] = [
+  { value: "round", label: "Round" },
+  { value: "ellipse", label: "Ellipse (chain)" },
+  { value: "square", label: "Square (euclidean)" },
+  { value: "diamond", label: "Diamond" },
+  { value: "line", label: "Line" },
+  { value: "cross", label: "Cross" },
+];
+
+const DIFFUSION_KERNELS: { value: DiffusionKernel; label: string }[] = [
+  { value: "floyd-steinberg", label: "Floyd–Steinberg" },
+  { value: "atkinson", label: "Atkinson" },
+  { value: "jarvis", label: "Jarvis–Judice–Ninke" },
+  { value: "stucki", label: "Stucki" },
+];
+
+const ORDERED_MATRICES: { value: OrderedMatrix; label: string }[] = [
+  { value: "bayer2", label: "Bayer 2×2" },
+  { value: "bayer4", label: "Bayer 4×4" },
+  { value: "bayer8", label: "Bayer 8×8" },
+  { value: "bayer16", label: "Bayer 16×16" },
+  { value: "cluster4", label: "Cluster 4×4" },
+  { value: "cluster6", label: "Cluster 6×6" },
+  { value: "cluster8", label: "Cluster 8×8" },
+  { value: "custom", label: "Custom" },
+];
+
 const PAPER_COLORS = [
   { name: "White", color: "#ffffff" },
   { name: "Cream", color: "#f5f0e8" },
@@ -94,23 +214,23 @@ const guide = {
       },
       {
         heading: "Paper",
-        body: "Choose the paper color to simulate different paper stocks. Enable \"Transparent\" to export with a transparent background instead of a paper color.",
+        body: "Choose the paper color to simulate different paper stocks. Enable \"Transparent\" to export with a transparent background instead of a paper color.\n\nThe paper stock simulates dot gain: ink soaks into the paper fibres and every dot prints larger, so a 50% tint comes out noticeably darker — a little on coated paper, more on uncoated and the most on newsprint. Tick \"Compensate\" to lighten the plates by the inverse curve so the printed tones match the original; exported plates include the compensation.",
       },
       {
         heading: "Ink Colors",
-        body: "Select from preset color combinations, or build your own by adding individual stencil ink colors. Each ink becomes a separate color layer. Remove colors by clicking the × on each badge. Opacity controls how strongly the ink covers the paper.",
+        body: "Select from preset color combinations, or build your own by adding individual stencil ink colors. Each ink becomes a separate color layer. Remove colors by clicking the × on each badge. Opacity controls how strongly the ink covers the paper.\n\n\"Suggest from Image\" analyses the image and proposes ink combinations from the ink list. The image's colors are grouped into a handful of representative colors, and each candidate set is scored by how closely it reprints them with the current separation, mixing model, opacity and paper (average CIELAB color difference, ΔE — lower is closer). Click a suggestion to use it as the palette; inks are ordered lightest first, which is also the print order.\n\nClick an ink's name to tune that plate on its own: screen angle, dot size, density, opacity, halftone mode and misregistration. Untouched settings follow the global controls; \"Reset\" returns the ink to them.\n\n\"Mixing\" chooses how overlapping inks combine. Multiply treats every ink as a transparent filter. Kubelka–Munk also models how inks scatter light, so opaque inks such as white or metallics hide the inks and dark paper beneath them, and yellow over blue is no longer a plain product. Set each ink's opacity class in its settings (white and metallic inks default to opaque, fluorescent inks to semi-opaque). The separation takes the same model into account.\n\n\"Print Order\" sets the order the drums print in, independent of the palette order; use the arrows to move an ink earlier or later. Exported plates are numbered in print order. Tick \"Knock out earlier inks\" in an ink's settings to cut its shape out of every ink printed before it instead of printing on top of them. Knockouts keep opaque colors clean but show paper gaps when the plates are misregistered.\n\nInks without a fixed angle are given screen angles automatically to keep moiré down: the darkest inks are kept 30° or more apart and light inks such as yellow take the remaining, least visible angles. The angle next to each ink name is its screen angle, highlighted when it is likely to form a visible moiré pattern with another ink (red when strong).",
       },
       {
         heading: "Separation",
-        body: "Controls how the image is decomposed into ink color layers.\n• Natural — Faithfully reproduces the original colors by blending inks proportionally.\n• Bold — Aggressively separates colors for a high-contrast, graphic look typical of artistic stencil prints.",
+        body: "Controls how the image is decomposed into ink color layers.\n• Natural — Faithfully reproduces the original colors by blending inks proportionally.\n• Bold — Aggressively separates colors for a high-contrast, graphic look typical of artistic stencil prints.\n• Perceptual — Chooses ink amounts so the overprinted result looks closest to the original (smallest CIELAB color difference). Keeps skin tones and pastels from drifting in hue.",
       },
       {
         heading: "Halftone Mode",
-        body: "Determines how tonal gradation is expressed.\n• Dot Density — Dots are a fixed size; darker areas have more dots (stochastic screening).\n• Dot Size — Dots are arranged in a regular grid; darker areas have larger dots (classic halftone).",
+        body: "Determines how tonal gradation is expressed.\n• Dot Density — Dots are a fixed size; darker areas have more dots (stochastic screening). Enable \"Blue noise\" for a smoother screen without clumps and holes; each ink uses a different part of the texture so plates don't stack their dots.\n• Dot Size — Dots are arranged in a regular grid; darker areas have larger dots (classic halftone). \"Dot Shape\" switches between round, elliptical (chain), square (euclidean — a checkerboard at 50%), diamond, line and cross screens; every shape keeps the same tone.\n• Diffusion — Error diffusion dithering (Floyd–Steinberg, Atkinson, Jarvis–Judice–Ninke or Stucki) for a grainy, organic texture. Dot Size sets the pixel size; \"Serpentine\" alternates the scan direction per row to avoid streaks.\n• Ordered — Thresholds against a tiled matrix for a crisp retro-computer look: Bayer 2×2 to 16×16, clustered-dot matrices, or your own matrix (rows separated by \";\", e.g. \"0 2; 3 1\"). The matrix follows each ink's screen angle, and Dot Size sets the size of one matrix cell.\n• Pattern — Upload a small grayscale tile (a star, a logo, a hatching texture) and use it as the screen. Dark parts of the tile take ink first; the tile is repeated at each ink's screen angle and scaled by Dot Size. Without a tile, a round dot is used.\n• Hybrid AM/FM — The same regular dots as Dot Size in the mid-tones (\"Dot Shape\" included), like a commercial RIP. Where a dot (or, in the shadows, the gap between dots) would shrink below \"Min Dot\", minimum-size dots or holes are scattered instead, keeping highlights and shadows crisp at small dot sizes.\n• Solid — No screen at all: everything darker than \"Threshold\" is printed as a flat, solid area, like a hand-cut stencil.\n• Tint Levels — Posterizes each ink into a few flat tints (\"Levels\" steps, e.g. 3 gives 33%, 67% and 100%), each filled with an even, fine screen.",
       },
       {
         heading: "Dot Size",
-        body: "Controls the size of halftone dots. Smaller values produce finer detail; larger values create a more visible dot pattern.",
+        body: "Controls the size of halftone dots. Smaller values produce finer detail; larger values create a more visible dot pattern.\n\nTick \"LPI\" to specify the screen the way a print shop does: a screen ruling in lines per inch on a paper size (shared with the PDF export, bleed included). The dot spacing shown is the physical size on paper. Downloads are then rendered at the chosen dpi, so \"55 LPI on A3 at 300 dpi\" gives exactly that. The ruling only sets the screen: misregistration, trap and the other sizes keep their meaning, so ticking \"LPI\" does not change them. Fine screens are previewed at a higher resolution (up to 2000px wide) so the dots stay visible; a note appears when the screen is still finer than the preview can show, or too fine to print at the chosen dpi.",
       },
       {
         heading: "Density",
@@ -120,13 +240,21 @@ const guide = {
         heading: "Misregistration",
         body: "Simulates the slight misalignment between color layers that naturally occurs in stencil printing. Higher values make the offset more pronounced.",
       },
+      {
+        heading: "Trap",
+        body: "Misregistration opens thin gaps of bare paper wherever two colors butt against each other, for example at knockouts or with Bold separation. Trapping spreads each lighter ink a little under the darker inks next to it, so the plates still overlap when they shift; the overlap hides under the darker ink. Set the width in pixels, or tick \"mm\" to give it as a printed width on the selected paper. Trapping is applied to the preview and to exported plates and PDFs; about as wide as the expected misregistration is usually enough.",
+      },
       {
         heading: "Noise",
         body: "Adds ink scuffing and uneven coverage typical of real stencil prints. Higher values create broader, more visible ink unevenness.",
       },
+      {
+        heading: "Seed",
+        body: "All randomness (grain, misregistration, ink scuffing and dot placement) is driven by the seed, so the same settings always produce the same print and the download matches the preview. Click \"Re-roll\" to try a different variation.",
+      },
       {
         heading: "Download",
-        body: "Export the result as a PNG image. Choose 1x, 2x, or 4x resolution for higher quality output.",
+        body: "Export the result as a PNG image. Choose 1x, 2x, or 4x resolution for higher quality output.\n\n\"Download plates\" exports every ink as its own black-on-white grayscale PNG, named after the ink and bundled into a ZIP — ready for making stencils or riso masters.\n\n\"PDF\" creates a print-ready file: page 1 is the composite preview, page 2 holds every ink as a spot-color (Separation) plate named after the ink. Choose the page size, bleed and whether to add crop and registration marks.\n\n\"SVG\" (Dot Size mode with round dots only) exports the halftone dots as vector circles, one group per ink in print order — suitable for cutting plotters and laser-cut stencils. Knockouts and trapping reshape the dots, so SVG export is unavailable while either is in use.",
       },
       {
         heading: "License",
@@ -143,23 +271,23 @@ const guide = {
       },
       {
         heading: "用紙",
-        body: "用紙の色を選択して、異なる紙質をシミュレートできます。「Transparent」を有効にすると、用紙色の代わりに透明な背景で書き出せます。",
+        body: "用紙の色を選択して、異なる紙質をシミュレートできます。「Transparent」を有効にすると、用紙色の代わりに透明な背景で書き出せます。\n\n紙の種類を選ぶとドットゲインをシミュレートします。インクが紙の繊維ににじんで網点が太るため、50% の網が濃く刷り上がります（塗工紙は少し、上質紙はより多く、新聞用紙が最も大きく太ります）。「Compensate」を有効にすると逆補正のカーブで版を明るくし、刷り上がりの階調を元画像に合わせます。書き出す版にも補正が含まれます。",
       },
       {
         heading: "インクカラー",
-        body: "プリセットの配色から選択するか、個別のステンシルインクカラーを追加して自由に組み合わせられます。各インクは独立した色版になります。バッジの×をクリックして色を削除できます。Opacityはインクの紙への乗り具合を調整します。",
+        body: "プリセットの配色から選択するか、個別のステンシルインクカラーを追加して自由に組み合わせられます。各インクは独立した色版になります。バッジの×をクリックして色を削除できます。Opacityはインクの紙への乗り具合を調整します。\n\n「Suggest from Image」は画像を解析し、インクの一覧から合う組み合わせを提案します。画像の色をいくつかの代表色にまとめ、現在の色分解・混色モデル・不透明度・紙の設定で代表色をどれだけ近く刷れるかで候補を評価します（CIELAB の平均色差 ΔE。小さいほど近い）。候補をクリックするとそのままパレットになります。インクは明るい順に並び、その順に刷ります。\n\nインク名をクリックすると、その版だけのスクリーン角度・ドットサイズ・濃度・不透明度・ハーフトーンモード・版ずれを調整できます。変更していない項目は全体の設定に従い、「Reset」で全体の設定に戻せます。\n\n「Mixing」はインクの重なり方を選びます。Multiply はすべてのインクを透明なフィルタとして扱います。Kubelka–Munk はインクによる光の散乱も再現するため、白やメタリックのような不透明インクは下のインクや暗い紙を隠し、青の上の黄色も単純な掛け算になりません。各インクの不透明度の分類はインクの設定で指定します（白・メタリックは不透明、蛍光色は半透明が既定）。色分解も同じモデルで行います。\n\n「Print Order」はパレットの並びとは別に、刷る順番を決めます。矢印でインクを前後に動かせます。書き出す版の番号も刷り順になります。インクの設定で「Knock out earlier inks」をオンにすると、そのインクは先に刷るインクの上に重ねず、先の版からその形を抜いてから刷ります。ノックアウトは不透明な色を濁らせませんが、版ずれがあると抜いた部分に紙が見えます。\n\n角度を指定していないインクには、モアレが目立たないスクリーン角度を自動で割り当てます。濃いインク同士は 30° 以上離し、黄色のような淡いインクには残りの目立ちにくい角度を割り当てます。インク名の横の角度はその版のスクリーン角度で、他のインクと目立つモアレができそうな場合は強調表示されます（強い場合は赤）。",
       },
       {
         heading: "色分解 (Separation)",
-        body: "画像をインクカラーにどのように分解するかを制御します。\n• Natural — インクを比例配合して元の色を忠実に再現します。\n• Bold — 色を大胆に分離し、ステンシル印刷特有のコントラストの高いグラフィカルな仕上がりにします。",
+        body: "画像をインクカラーにどのように分解するかを制御します。\n• Natural — インクを比例配合して元の色を忠実に再現します。\n• Bold — 色を大胆に分離し、ステンシル印刷特有のコントラストの高いグラフィカルな仕上がりにします。\n• Perceptual — 重ね刷りの結果が見た目で元の色に最も近くなる（CIELAB の色差が最小になる）ようにインク量を決めます。肌色や淡い色の色相のずれを抑えます。",
       },
       {
         heading: "ハーフトーンモード",
-        body: "濃淡の表現方法を決定します。\n• Dot Density — 点のサイズは固定で、暗い部分ほど点の密度が高くなります（確率的スクリーニング）。\n• Dot Size — 点が規則的な格子状に並び、暗い部分ほど点が大きくなります（従来型ハーフトーン）。",
+        body: "濃淡の表現方法を決定します。\n• Dot Density — 点のサイズは固定で、暗い部分ほど点の密度が高くなります（確率的スクリーニング）。「Blue noise」を有効にすると点の塊や穴がない滑らかなスクリーンになります。インクごとにテクスチャの位置をずらすため、版同士の点が重なりません。\n• Dot Size — 点が規則的な格子状に並び、暗い部分ほど点が大きくなります（従来型ハーフトーン）。「Dot Shape」で丸・楕円（チェーン）・スクエア（ユークリッド、50%で市松模様）・ひし形・線・十字を切り替えられます。どの形状でも階調は同じです。\n• Diffusion — 誤差拡散法（Floyd–Steinberg、Atkinson、Jarvis–Judice–Ninke、Stucki）によるザラッとした有機的な質感になります。Dot Size で画素の大きさを決めます。「Serpentine」は行ごとに走査方向を反転し、筋状のパターンを抑えます。\n• Ordered — タイル状に敷いたしきい値行列と比較する組織的ディザで、レトロなコンピュータ風のくっきりした仕上がりになります。Bayer 2×2〜16×16、集中型ドット行列、または独自の行列（行を「;」で区切る。例: 「0 2; 3 1」）を選べます。行列は各インクのスクリーン角度に合わせて回転し、Dot Size が行列 1 マスの大きさになります。\n• Pattern — 星・ロゴ・ハッチングなどの小さなグレースケール画像をアップロードしてスクリーンとして使います。タイルの暗い部分から先にインクが乗ります。タイルは各インクのスクリーン角度で敷き詰められ、Dot Size で大きさが決まります。未指定の場合は丸いドットになります。\n• Hybrid AM/FM — 商用 RIP のように、中間調は Dot Size と同じ規則的な網点（「Dot Shape」を含む）で表現します。ドット（シャドウではドット間の隙間）が「Min Dot」より小さくなる部分では、最小サイズのドットや穴を確率的に配置し、小さなドットサイズでもハイライトとシャドウをくっきり再現します。\n• Solid — 網点を使わず、「Threshold」より濃い部分をベタで塗ります。手切りのステンシルのような仕上がりになります。\n• Tint Levels — 各インクを数段階の平網にポスタリゼーションします（「Levels」の段数。例: 3 なら 33%・67%・100%）。各段は均一な細かい網で埋められます。",
       },
       {
         heading: "ドットサイズ",
-        body: "ハーフトーンの点の大きさを調整します。小さい値は細かいディテールを、大きい値は目に見えるドットパターンを生み出します。",
+        body: "ハーフトーンの点の大きさを調整します。小さい値は細かいディテールを、大きい値は目に見えるドットパターンを生み出します。\n\n「LPI」にチェックを入れると、印刷所と同じようにスクリーン線数（1 インチあたりの線数）と用紙サイズで指定できます（用紙サイズは PDF 書き出しと共通で、塗り足しを含みます）。表示されるドット間隔は紙の上での実寸です。書き出しは選んだ dpi で行われるため、「A3 に 55 LPI、300 dpi」をそのまま再現できます。線数が決めるのはスクリーンだけで、版ずれ・トラッピングなどの長さは「LPI」を切り替えても変わりません。細かいスクリーンは網点が見えるようプレビューを高い解像度（最大幅 2000px）で描画します。それでもプレビューで表せない場合や、選んだ dpi では刷れないほど細かい場合は注意が表示されます。",
       },
       {
         heading: "濃度 (Density)",
@@ -169,13 +297,21 @@ const guide = {
         heading: "版ずれ (Misregistration)",
         body: "ステンシル印刷で自然に発生する色版のわずかなずれをシミュレートします。値を大きくするとずれが顕著になります。",
       },
+      {
+        heading: "トラッピング (Trap)",
+        body: "ノックアウトや Bold の色分解のように 2 色が接する部分では、版ずれで紙の細い隙間ができます。トラッピングは明るいインクを隣の暗いインクの下へ少しだけ広げ、版がずれても重なりが残るようにします。重なった部分は暗いインクに隠れます。幅は px で指定するか、「mm」をオンにして選択中の用紙に刷ったときの幅で指定します。プレビューと書き出す版・PDF の両方に適用されます。想定される版ずれと同じくらいの幅が目安です。",
+      },
       {
         heading: "ノイズ",
         body: "実際のステンシル印刷に見られるインクの掠れや色ムラを加えます。値を大きくすると、より広範囲にムラが現れます。",
       },
+      {
+        heading: "シード",
+        body: "グレイン・版ずれ・掠れ・ドット配置などのランダム要素はすべてシードで決まります。同じ設定なら常に同じ仕上がりになり、ダウンロード結果もプレビューと一致します。「Re-roll」で別のバリエーションを試せます。",
+      },
       {
         heading: "ダウンロード",
-        body: "結果をPNG画像として書き出します。1x、2x、4xの解像度を選択して、より高品質な出力が可能です。",
+        body: "結果をPNG画像として書き出します。1x、2x、4xの解像度を選択して、より高品質な出力が可能です。\n\n「Download plates」では各インクの版を白地に黒のグレースケールPNGとしてインク名で書き出し、ZIPにまとめてダウンロードします。製版やリソグラフのマスター作成に使えます。\n\n「PDF」では入稿用のファイルを作成します。1ページ目が合成プレビュー、2ページ目にインク名のスポットカラー（Separation）版を配置します。用紙サイズ・塗り足し・トンボの有無を選べます。\n\n「SVG」（Dot Size モードの丸ドットのみ）では網点をインクごとに刷り順でグループ化したベクターの円として書き出します。カッティングプロッタやレーザーカットでのステンシル製作に使えます。ノックアウトとトラッピングは網点の形を変えるため、使用中は SVG を書き出せません。",
       },
       {
         heading: "ライセンス",
@@ -274,6 +410,244 @@ function PaperColorPicker({
   );
 }
 
+/** モアレの見えやすさの目安 */
+function moireLevel(moire: number): { label: string; className: string } {
+  if (moire < 0.01) return { label: "low", className: "text-muted-foreground" };
+  if (moire < 0.05) return { label: "moderate", className: "text-foreground" };
+  return { label: "high", className: "text-destructive" };
+}
+
+/** 版ごとの上書き項目 */
+const INK_OVERRIDE_KEYS = [
+  "angle",
+  "dotSize",
+  "density",
+  "inkOpacity",
+  "halftoneMode",
+  "misregistration",
+] as const;
+
+function InkSlider({
+  label,
+  value,
+  overridden,
+  onChange,
+  min,
+  max,
+  step,
+  format,
+}: {
+  label: string;
+  value: number;
+  overridden: boolean;
+  onChange: (value: number) => void;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <Label className="text-xs text-muted-foreground">{label}</Label>
+        <span
+          className={`font-mono text-[11px] ${overridden ? "text-foreground" : "text-muted-foreground"}`}
+        >
+          {format(value)}
+        </span>
+      </div>
+      <Slider
+        value={[value]}
+        onValueChange={([v]) => onChange(v)}
+        min={min}
+        max={max}
+        step={step}
+        className="mt-2"
+      />
+    </div>
+  );
+}
+
+/** インクバッジから開く版ごとの設定エディタ */
+function InkSettingsPopover({
+  color,
+  settings,
+  angleReport,
+  conflictName,
+  globalMode,
+  kubelkaMunk,
+  lpi,
+  onChange,
+  onReset,
+}: {
+  color: StencilColor;
+  /** 全体設定で補完した実効値 */
+  settings: InkSettings;
+  /** スクリーン角度の割当とモアレの見積もり */
+  angleReport: InkAngleReport;
+  /** モアレが最も目立つ相手のインク名 */
+  conflictName?: string;
+  /** 全体のハーフトーンモード */
+  globalMode: HalftoneMode;
+  /** Kubelka–Munk の混色モデルを使っているか（不透明度の分類を表示する） */
+  kubelkaMunk: boolean;
+  /** 線数指定の LPI。版ごとのドットサイズを指定していなければ線数から決まる */
+  lpi?: number;
+  onChange: (patch: Partial<StencilColor>) => void;
+  onReset: () => void;
+}) {
+  const hasOverrides = INK_OVERRIDE_KEYS.some((k) => color[k] !== undefined);
+  const knockoutId = useId();
+  // 周期的なスクリーン同士でなければモアレは出ない
+  const moire = angleReport.separation !== null ? moireLevel(angleReport.moire) : null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="inline-flex items-center gap-1.5 rounded-sm transition-colors hover:text-foreground/70">
+          <span
+            className="inline-block h-3 w-3 rounded-full border border-black/10"
+            style={{ background: color.color }}
+          />
+          {color.name}
+          {moire && (
+            <span className={`font-mono text-[10px] ${moire.className}`}>
+              {angleReport.angle}°
+            </span>
+          )}
+          {hasOverrides && (
+            <span className="inline-block h-1 w-1 rounded-full bg-foreground/60" />
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 p-3" align="start">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-medium">{color.name}</p>
+            <button
+              className="inline-flex items-center gap-1 text-xs text-muted-foreground transition-colors hover:text-foreground disabled:opacity-40"
+              onClick={onReset}
+              disabled={!hasOverrides}
+            >
+              <RotateCcw className="h-3 w-3" /> Reset
+            </button>
+          </div>
+          <div>
+            <Label className="mb-2 text-xs text-muted-foreground">Mode</Label>
+            <Select
+              value={color.halftoneMode ?? "global"}
+              onValueChange={(v) =>
+                onChange({ halftoneMode: v === "global" ? undefined : (v as HalftoneMode) })
+              }
+            >
+              <SelectTrigger className="h-8 w-full text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="global" className="text-xs">
+                  Global ({halftoneModeLabel(globalMode)})
+                </SelectItem>
+                {HALFTONE_MODES.map((m) => (
+                  <SelectItem key={m.value} value={m.value} className="text-xs">
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <InkSlider
+            label="Angle"
+            value={settings.angle}
+            overridden={color.angle !== undefined}
+            onChange={(angle) => onChange({ angle })}
+            min={0}
+            max={180}
+            step={1}
+            format={(v) => `${v}°`}
+          />
+          {moire && (
+            <p className="-mt-1 text-[11px] text-muted-foreground">
+              {angleReport.auto ? "Auto" : "Manual"} · {angleReport.separation}° apart · moiré{" "}
+              <span className={moire.className}>{moire.label}</span>
+              {conflictName && angleReport.moire >= 0.01 && ` (with ${conflictName})`}
+            </p>
+          )}
+          <InkSlider
+            label="Dot Size"
+            value={Math.max(0.5, settings.dotSize)}
+            overridden={color.dotSize !== undefined}
+            onChange={(dotSize) => onChange({ dotSize })}
+            min={0.5}
+            max={12}
+            step={0.5}
+            format={(v) => (lpi !== undefined && color.dotSize === undefined ? `${lpi} LPI` : `${v.toFixed(1)}px`)}
+          />
+          <InkSlider
+            label="Density"
+            value={settings.density}
+            overridden={color.density !== undefined}
+            onChange={(density) => onChange({ density })}
+            min={0.5}
+            max={2}
+            step={0.1}
+            format={(v) => v.toFixed(1)}
+          />
+          <InkSlider
+            label="Opacity"
+            value={settings.inkOpacity}
+            overridden={color.inkOpacity !== undefined}
+            onChange={(inkOpacity) => onChange({ inkOpacity })}
+            min={0.1}
+            max={1}
+            step={0.05}
+            format={(v) => `${Math.round(v * 100)}%`}
+          />
+          <div className="flex items-center gap-1.5">
+            <Checkbox
+              id={knockoutId}
+              checked={color.overprint === "knockout"}
+              onCheckedChange={(v: boolean) => onChange({ overprint: v ? "knockout" : undefined })}
+            />
+            <Label htmlFor={knockoutId} className="text-xs text-muted-foreground">
+              Knock out earlier inks
+            </Label>
+          </div>
+          {kubelkaMunk && (
+            <div>
+              <Label className="mb-2 text-xs text-muted-foreground">Opacity Class</Label>
+              <Select
+                value={color.opacityClass ?? "transparent"}
+                onValueChange={(v) => onChange({ opacityClass: v as InkOpacityClass })}
+              >
+                <SelectTrigger className="h-8 w-full text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPACITY_CLASSES.map((o) => (
+                    <SelectItem key={o.value} value={o.value} className="text-xs">
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <InkSlider
+            label="Misregistration"
+            value={settings.misregistration}
+            overridden={color.misregistration !== undefined}
+            onChange={(misregistration) => onChange({ misregistration })}
+            min={0}
+            max={8}
+            step={0.5}
+            format={(v) => `${v}px`}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 function App() {
   const [imageSrc, setImageSrc] = useState(SAMPLE_IMAGE);
   const [colors, setColors] = useState<StencilColor[]>([
@@ -281,17 +655,54 @@ function App() {
   ]);
   const [dotSize, setDotSize] = useState(0.5);
   const [misregistration, setMisregistration] = useState(2);
+  // トラッピング幅。trapInMm なら用紙（PDF と共通）に刷ったときの mm
+  const [trapWidth, setTrapWidth] = useState(0);
+  const [trapInMm, setTrapInMm] = useState(false);
   const [density, setDensity] = useState(1.5);
   const [inkOpacity, setInkOpacity] = useState(0.75);
+  const [mixingModel, setMixingModel] = useState<MixingModel>("multiply");
+  // 刷り順（colors のインデックス）。空ならパレット順
+  const [printOrder, setPrintOrder] = useState<number[]>([]);
   const [paperColor, setPaperColor] = useState("#f5f0e8");
+  const [paperStock, setPaperStock] = useState<PaperStock>("none");
+  const [compensateDotGain, setCompensateDotGain] = useState(false);
   const [noise, setNoise] = useState(0);
   const [transparentBg, setTransparentBg] = useState(false);
   const [invert, setInvert] = useState(false);
+  const [seed, setSeed] = useState(1);
   const [halftoneMode, setHalftoneMode] = useState<HalftoneMode>("fm");
+  const [dotShape, setDotShape] = useState<DotShape>("round");
+  const [minDotSize, setMinDotSize] = useState(1);
+  const [solidThreshold, setSolidThreshold] = useState(0.5);
+  const [tintLevels, setTintLevels] = useState(3);
+  const [blueNoise, setBlueNoise] = useState(false);
+  const [diffusionKernel, setDiffusionKernel] = useState<DiffusionKernel>("floyd-steinberg");
+  const [serpentine, setSerpentine] = useState(true);
+  const [orderedMatrix, setOrderedMatrix] = useState<OrderedMatrix>("bayer8");
+  const [thresholdText, setThresholdText] = useState("0 8 2 10; 12 4 14 6; 3 11 1 9; 15 7 13 5");
+  // 読み取れない入力の間は直前の有効な行列を使い続ける
+  const [thresholdMatrix, setThresholdMatrix] = useState<number[][]>(
+    () => parseThresholdMatrix(thresholdText) ?? [[0]]
+  );
+  const [pattern, setPattern] = useState<{ src: string; tile: HalftonePattern } | null>(null);
+  const [patternError, setPatternError] = useState<string | null>(null);
+  const patternInputRef = useRef<HTMLInputElement>(null);
   const [colorMode, setColorMode] = useState<ColorMode>("natural");
   const [downloadScale, setDownloadScale] = useState("1");
+  const [pdfPageSize, setPdfPageSize] = useState<PdfPageSize>("a4");
+  const [pdfBleed, setPdfBleed] = useState(3);
+  // 線数指定: 用紙サイズは PDF と共通
+  const [useRuling, setUseRuling] = useState(false);
+  const [lpi, setLpi] = useState(55);
+  const [dpi, setDpi] = useState(300);
+  const [pdfMarks, setPdfMarks] = useState(true);
   const [presetKey, setPresetKey] = useState("cmyk");
   const [addColorKey, setAddColorKey] = useState("black");
+  const [suggestCount, setSuggestCount] = useState("3");
+  // 提案は解析した画像とともに保持し、画像を替えたら表示しない
+  const [suggestions, setSuggestions] = useState<{ src: string; items: PaletteSuggestion[] } | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<StencilCanvasHandle>(null);
   const previewRef = useRef<HTMLDivElement>(null);
@@ -299,6 +710,8 @@ function App() {
   const [guideLang, setGuideLang] = useState<GuideLang>("en");
 
   const [downloading, setDownloading] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // Track image aspect ratio (width / height)
   const [imageAspect, setImageAspect] = useState<number | null>(null);
@@ -309,6 +722,24 @@ function App() {
     });
   }, [imageSrc]);
 
+  const outputSpec: OutputSpec = { pageSize: pdfPageSize, dpi, lpi };
+  const ruling = useRuling && imageAspect ? screenRuling(outputSpec, imageAspect, pdfBleed) : undefined;
+  const outputSize = imageAspect ? outputPixelSize(outputSpec, imageAspect, pdfBleed) : null;
+  const printWidth = imageAspect ? printSize(pdfPageSize, imageAspect, pdfBleed).width : null;
+  // mm 指定は画像の印刷幅から基準幅の px に換算する（画像の読み込み前は 0）
+  const trap = trapInMm ? (printWidth ? mmToUnits(trapWidth, printWidth, BASE_WIDTH) : 0) : trapWidth;
+
+  // 単位を切り替えても同じ幅を保つ
+  const handleTrapUnitChange = (mm: boolean) => {
+    if (printWidth) {
+      const next = mm ? (trapWidth * printWidth) / BASE_WIDTH : mmToUnits(trapWidth, printWidth, BASE_WIDTH);
+      setTrapWidth(Math.round(next * (mm ? 20 : 2)) / (mm ? 20 : 2));
+    } else {
+      setTrapWidth(0);
+    }
+    setTrapInMm(mm);
+  };
+
   // Measure available space in preview container
   const [containerSize, setContainerSize] = useState({ width: 600, height: 400 });
   useEffect(() => {
@@ -333,89 +764,162 @@ function App() {
 
   // Compute canvas width that fits within container (accounting for padding)
   const canvasWidth = (() => {
-    if (!imageAspect) return 600;
+    if (!imageAspect) return BASE_WIDTH;
     const pad = isLgLayout ? 48 : 24; // lg:p-6 = 24*2, p-3 = 12*2
     const availW = containerSize.width - pad;
     if (!isLgLayout) {
       // Mobile/tablet: scrollable layout, no height constraint
-      return Math.max(100, Math.min(600, availW));
+      return Math.max(100, Math.min(BASE_WIDTH, availW));
     }
     const availH = containerSize.height - pad;
     const widthFromHeight = availH * imageAspect;
-    return Math.max(100, Math.min(600, availW, widthFromHeight));
+    return Math.max(100, Math.min(BASE_WIDTH, availW, widthFromHeight));
   })();
 
+  // 線数指定では、セルが MIN_CELL_PX 以上になる解像度（書き出し幅が上限）でプレビューを描画し、表示は縮小する
+  const outputWidth = outputSize?.width ?? BASE_WIDTH;
+  const rulingCell = ruling ? rulingCellSize(ruling, outputWidth) : null;
+  const previewWidth = Math.round(
+    rulingCell !== null
+      ? Math.min(outputWidth, MAX_RULING_PREVIEW_WIDTH, Math.max(canvasWidth, (MIN_CELL_PX * outputWidth) / rulingCell))
+      : canvasWidth
+  );
+  const previewCell = rulingCell !== null ? (rulingCell * previewWidth) / outputWidth : null;
+
+  const buildOptions = (): StencilOptions => ({
+    colors,
+    printOrder,
+    dotSize,
+    misregistration,
+    trap,
+    grain: 0,
+    density,
+    inkOpacity,
+    mixingModel,
+    paperColor,
+    paperStock,
+    compensateDotGain,
+    halftoneMode,
+    dotShape,
+    minDotSize,
+    solidThreshold,
+    tintLevels,
+    fmNoise: blueNoise ? "blue" : "white",
+    diffusionKernel,
+    serpentine,
+    orderedMatrix,
+    thresholdMatrix,
+    pattern: pattern?.tile,
+    colorMode,
+    noise,
+    transparentBg,
+    invert,
+    seed,
+    referenceWidth: BASE_WIDTH,
+    screenRuling: ruling,
+  });
+
+  // プレビューは表示幅に合わせて縮小されているため、書き出しは常に出力幅で再計算する
+  // referenceWidth により 1x/2x/4x とも同じ印刷を拡大した見た目になる
+  // 線数指定では用紙サイズと dpi から書き出し幅を決める
+  const loadExportSource = async () => {
+    const img = await loadImage(imageSrc);
+    const aspect = img.naturalWidth / img.naturalHeight;
+    if (useRuling) {
+      const { width, height } = outputPixelSize(outputSpec, aspect, pdfBleed);
+      return getImageData(img, width, height);
+    }
+    const targetWidth = BASE_WIDTH * Number(downloadScale);
+    const targetHeight = Math.round(targetWidth / aspect);
+    return getImageData(img, targetWidth, targetHeight);
+  };
+
   const handleDownload = async () => {
-    const scale = Number(downloadScale);
-
-    // 1x: use preview canvas directly
-    if (scale === 1) {
-      const canvas = canvasRef.current?.getCanvas();
-      if (!canvas) return;
-      const link = document.createElement("a");
-      link.download = "stencil.png";
-      link.href = canvas.toDataURL("image/png");
-      link.click();
-      return;
+    // 大きな画像はタイルに分割し、Worker プールで並列処理する
+    setDownloading(true);
+    setDownloadProgress(0);
+    setExportError(null);
+    const renderer = createTiledRenderer();
+    try {
+      const source = await loadExportSource();
+      const { width, height } = source;
+      const pixels = await renderer.render(source, buildOptions(), {
+        onProgress: setDownloadProgress,
+      });
+      downloadBlob(await canvasToPngBlob(pixelsToCanvas(pixels, width, height)), "stencil.png");
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : "Failed to export image");
+    } finally {
+      renderer.dispose();
+      setDownloading(false);
+      setDownloadProgress(null);
     }
+  };
 
-    // Higher res: Web Worker でオフスレッド処理
+  const handleDownloadPlates = async () => {
     setDownloading(true);
+    setExportError(null);
     try {
-      const img = await loadImage(imageSrc);
-      const targetWidth = 600 * scale;
-      const targetHeight = Math.round(
-        (img.naturalHeight / img.naturalWidth) * targetWidth
+      const { data, width, height } = await loadExportSource();
+      const plates = await runStencilWorker<PlateImage[]>({
+        kind: "plates",
+        data,
+        width,
+        height,
+        options: buildOptions(),
+      });
+
+      const entries = await Promise.all(
+        plates.map(async (p, i) => ({
+          name: plateFileName(p.name, i, "png"),
+          data: await canvasToPng(pixelsToCanvas(p.pixels, width, height)),
+        }))
       );
-      const imageData = getImageData(img, targetWidth, targetHeight);
-      const options: StencilOptions = {
-        colors,
-        dotSize,
-        misregistration,
-        grain: 0,
-        density,
-        inkOpacity,
-        paperColor,
-        halftoneMode,
-        colorMode,
-        noise,
-        transparentBg,
-        invert,
-      };
-
-      const pixels = await new Promise<Uint8ClampedArray>((resolve, reject) => {
-        const worker = new Worker(
-          new URL("./lib/stencil.worker.ts", import.meta.url),
-          { type: "module" },
-        );
-        worker.onmessage = (e: MessageEvent<Uint8ClampedArray>) => {
-          resolve(e.data);
-          worker.terminate();
-        };
-        worker.onerror = (e) => {
-          reject(new Error(e.message));
-          worker.terminate();
-        };
-        worker.postMessage({
-          data: imageData.data,
-          width: imageData.width,
-          height: imageData.height,
-          options,
-        });
+      const zip = createZip(entries);
+      downloadBlob(new Blob([zip], { type: "application/zip" }), "stencil-plates.zip");
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : "Failed to export plates");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    setDownloading(true);
+    setExportError(null);
+    try {
+      const { data, width, height } = await loadExportSource();
+      const pdf = await runStencilWorker<Uint8Array<ArrayBuffer>>({
+        kind: "pdf",
+        data,
+        width,
+        height,
+        options: buildOptions(),
+        pdf: { pageSize: pdfPageSize, bleed: pdfBleed, marks: pdfMarks },
       });
+      downloadBlob(new Blob([pdf], { type: "application/pdf" }), "stencil.pdf");
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : "Failed to export PDF");
+    } finally {
+      setDownloading(false);
+    }
+  };
 
-      const offscreen = document.createElement("canvas");
-      offscreen.width = targetWidth;
-      offscreen.height = targetHeight;
-      const ctx = offscreen.getContext("2d")!;
-      const output = ctx.createImageData(targetWidth, targetHeight);
-      output.data.set(pixels);
-      ctx.putImageData(output, 0, 0);
-
-      const link = document.createElement("a");
-      link.download = "stencil.png";
-      link.href = offscreen.toDataURL("image/png");
-      link.click();
+  const handleDownloadSvg = async () => {
+    setDownloading(true);
+    setExportError(null);
+    try {
+      const { data, width, height } = await loadExportSource();
+      const svg = await runStencilWorker<string>({
+        kind: "svg",
+        data,
+        width,
+        height,
+        options: buildOptions(),
+      });
+      downloadBlob(new Blob([svg], { type: "image/svg+xml" }), "stencil.svg");
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : "Failed to export SVG");
     } finally {
       setDownloading(false);
     }
@@ -426,9 +930,41 @@ function App() {
     if (preset) {
       setPresetKey(key);
       setColors([...preset.colors]);
+      setPrintOrder([]);
     }
   };
 
+  // 画像の色を解析し、現在の色分解・混色・紙の設定で再現誤差の小さいインクの組み合わせを求める
+  const handleSuggest = async () => {
+    setSuggesting(true);
+    setSuggestError(null);
+    try {
+      const img = await loadImage(imageSrc);
+      const width = Math.min(SUGGEST_WIDTH, img.naturalWidth);
+      const height = Math.max(1, Math.round((width * img.naturalHeight) / img.naturalWidth));
+      const { data } = getImageData(img, width, height);
+      const items = await runStencilWorker<PaletteSuggestion[]>({
+        kind: "palette",
+        data,
+        width,
+        height,
+        options: buildOptions(),
+        palette: { inkCount: Number(suggestCount), library: inkLibrary },
+      });
+      setSuggestions({ src: imageSrc, items });
+    } catch (e) {
+      setSuggestError(e instanceof Error ? e.message : "Failed to suggest palettes");
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const applySuggestion = (suggestion: PaletteSuggestion) => {
+    setColors(suggestion.colors);
+    setPresetKey("");
+    setPrintOrder([]);
+  };
+
   const addColor = () => {
     const ink = INKS[addColorKey as keyof typeof INKS];
     if (ink) {
@@ -436,8 +972,63 @@ function App() {
     }
   };
 
+  const updateColor = (index: number, patch: Partial<StencilColor>) => {
+    setColors((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  };
+
+  // 版ごとの上書きを外して全体設定に戻す（不透明度の分類と重ね方はインク自体の設定なので残す）
+  const resetColor = (index: number) => {
+    setColors((prev) =>
+      prev.map((c, i) =>
+        i === index
+          ? { name: c.name, color: c.color, opacityClass: c.opacityClass, overprint: c.overprint }
+          : c
+      )
+    );
+  };
+
   const removeColor = (index: number) => {
     setColors((prev) => prev.filter((_, i) => i !== index));
+    // 後ろのインクの番号を詰める
+    setPrintOrder((prev) => prev.filter((i) => i !== index).map((i) => (i > index ? i - 1 : i)));
+  };
+
+  // 刷り順の position 番目のインクを前後に入れ替える
+  const movePrintOrder = (position: number, delta: number) => {
+    const next = resolvePrintOrder({ colors, printOrder });
+    const target = position + delta;
+    if (target < 0 || target >= next.length) return;
+    [next[position], next[target]] = [next[target], next[position]];
+    setPrintOrder(next);
+  };
+
+  const handlePatternChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setPatternError(null);
+    const src = URL.createObjectURL(file);
+    let tile: HalftonePattern;
+    try {
+      const img = await loadImage(src);
+      const ratio = Math.min(1, MAX_PATTERN_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+      tile = patternFromImageData(
+        getImageData(
+          img,
+          Math.max(1, Math.round(img.naturalWidth * ratio)),
+          Math.max(1, Math.round(img.naturalHeight * ratio))
+        )
+      );
+    } catch (err) {
+      // 読み込めなかった画像の URL は使われないのでここで解放する
+      URL.revokeObjectURL(src);
+      setPatternError(err instanceof Error ? err.message : "Failed to load pattern image");
+      return;
+    }
+    setPattern((prev) => {
+      if (prev) URL.revokeObjectURL(prev.src);
+      return { src, tile };
+    });
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -447,6 +1038,28 @@ function App() {
     setImageSrc(url);
   };
 
+  const options = buildOptions();
+  const screenAngles = resolveScreenAngles(options);
+  const inkSettings = resolveAllInkSettings(options, screenAngles);
+  const order = resolvePrintOrder(options);
+  const angleReport = screenAngleReport(options, screenAngles);
+  const usesAM = inkSettings.some((ink) => ink.halftoneMode === "am");
+  // SVG は丸い AM 網点だけを円として書き出し、ノックアウトやトラッピングで削った形は表せない
+  const svgUnavailable =
+    needsRasterDots(options)
+      ? "SVG export is available when every ink uses Dot Size mode with round dots"
+      : needsRasterPlates(options)
+        ? "SVG export is not available with knockouts or trapping"
+        : null;
+  const usesFM = inkSettings.some((ink) => ink.halftoneMode === "fm");
+  const usesDiffusion = inkSettings.some((ink) => ink.halftoneMode === "diffusion");
+  const usesOrdered = inkSettings.some((ink) => ink.halftoneMode === "ordered");
+  const usesPattern = inkSettings.some((ink) => ink.halftoneMode === "pattern");
+  const usesHybrid = inkSettings.some((ink) => ink.halftoneMode === "hybrid");
+  const usesSolid = inkSettings.some((ink) => ink.halftoneMode === "solid");
+  const usesLevels = inkSettings.some((ink) => ink.halftoneMode === "levels");
+  const thresholdValid = parseThresholdMatrix(thresholdText) !== null;
+
   return (
     <div className="mx-auto max-w-7xl px-4 py-10 sm:px-6 lg:flex lg:h-screen lg:flex-col lg:overflow-hidden lg:py-6">
       {/* Header */}
@@ -569,6 +1182,31 @@ function App() {
                 </Label>
               </div>
             </div>
+            <div className="mt-3 flex items-center gap-3">
+              <Select value={paperStock} onValueChange={(v) => setPaperStock(v as PaperStock)}>
+                <SelectTrigger className="h-8 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAPER_STOCKS.map((p) => (
+                    <SelectItem key={p.value} value={p.value} className="text-xs">
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-1.5">
+                <Checkbox
+                  id="compensate-dot-gain"
+                  checked={compensateDotGain}
+                  onCheckedChange={(v: boolean) => setCompensateDotGain(v)}
+                  disabled={paperStock === "none"}
+                />
+                <Label htmlFor="compensate-dot-gain" className="text-xs text-muted-foreground">
+                  Compensate
+                </Label>
+              </div>
+            </div>
           </section>
 
           <Separator className="mb-6" />
@@ -603,6 +1241,65 @@ function App() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="mb-3">
+              <Label className="mb-2 text-xs text-muted-foreground">Suggest from Image</Label>
+              <div className="flex items-center gap-1.5">
+                <Select value={suggestCount} onValueChange={setSuggestCount}>
+                  <SelectTrigger className="h-9 w-24 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUGGEST_INK_COUNTS.map((n) => (
+                      <SelectItem key={n} value={String(n)} className="text-xs">
+                        {n} {n === 1 ? "ink" : "inks"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  className="h-9 gap-1.5 text-xs"
+                  onClick={handleSuggest}
+                  disabled={suggesting}
+                >
+                  <Sparkles className="h-3.5 w-3.5" />
+                  {suggesting ? "Analyzing..." : "Suggest"}
+                </Button>
+              </div>
+              {suggestError && (
+                <span className="mt-1 block text-[11px] text-destructive" role="alert">
+                  {suggestError}
+                </span>
+              )}
+              {suggestions?.src === imageSrc && (
+                <div className="mt-2 flex flex-col gap-1">
+                  {suggestions.items.map((s) => (
+                    <button
+                      key={s.colors.map((c) => c.color).join("+")}
+                      title={s.colors.map((c) => `${c.name} ${c.color}`).join(" + ")}
+                      onClick={() => applySuggestion(s)}
+                      className="flex items-center gap-2 rounded border border-input px-2 py-1.5 text-left text-xs transition-colors hover:bg-accent"
+                    >
+                      <span className="flex shrink-0 -space-x-1">
+                        {s.colors.map((c) => (
+                          <span
+                            key={c.color}
+                            className="inline-block h-3 w-3 rounded-full border border-black/10"
+                            style={{ background: c.color }}
+                          />
+                        ))}
+                      </span>
+                      <span className="min-w-0 flex-1 truncate">
+                        {s.colors.map((c) => c.name).join(" + ")}
+                      </span>
+                      <span className="font-mono text-[10px] text-muted-foreground">
+                        ΔE {s.error.toFixed(1)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="flex flex-wrap items-center gap-2">
               {colors.map((c, i) => (
                 <Badge
@@ -610,11 +1307,17 @@ function App() {
                   variant="secondary"
                   className="gap-1.5 py-1 pl-1.5 pr-1 text-xs font-normal"
                 >
-                  <span
-                    className="inline-block h-3 w-3 rounded-full border border-black/10"
-                    style={{ background: c.color }}
+                  <InkSettingsPopover
+                    color={c}
+                    settings={inkSettings[i]}
+                    angleReport={angleReport.inks[i]}
+                    conflictName={colors[angleReport.inks[i].conflictWith ?? -1]?.name}
+                    globalMode={halftoneMode}
+                    kubelkaMunk={mixingModel === "kubelka-munk"}
+                    lpi={ruling ? lpi : undefined}
+                    onChange={(patch) => updateColor(i, patch)}
+                    onReset={() => resetColor(i)}
                   />
-                  {c.name}
                   <button
                     onClick={() => removeColor(i)}
                     className="ml-0.5 inline-flex h-4 w-4 items-center justify-center rounded-full text-muted-foreground transition-colors hover:bg-foreground/10 hover:text-foreground"
@@ -651,6 +1354,44 @@ function App() {
                 </Button>
               </div>
             </div>
+            {colors.length > 1 && (
+              <div className="mt-3">
+                <Label className="mb-2 text-xs text-muted-foreground">Print Order</Label>
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {order.map((ci, k) => (
+                    <Badge
+                      key={`${colors[ci].name}-${ci}`}
+                      variant="outline"
+                      className="gap-1 px-1 py-0.5 text-xs font-normal"
+                    >
+                      <button
+                        onClick={() => movePrintOrder(k, -1)}
+                        disabled={k === 0}
+                        className="inline-flex text-muted-foreground transition-colors hover:text-foreground disabled:opacity-30"
+                      >
+                        <ChevronLeft className="h-3 w-3" />
+                      </button>
+                      <span className="font-mono text-[10px] text-muted-foreground">{k + 1}</span>
+                      <span
+                        className="inline-block h-2.5 w-2.5 rounded-full border border-black/10"
+                        style={{ background: colors[ci].color }}
+                      />
+                      {colors[ci].name}
+                      {colors[ci].overprint === "knockout" && (
+                        <span className="font-mono text-[10px] text-muted-foreground">KO</span>
+                      )}
+                      <button
+                        onClick={() => movePrintOrder(k, 1)}
+                        disabled={k === order.length - 1}
+                        className="inline-flex text-muted-foreground transition-colors hover:text-foreground disabled:opacity-30"
+                      >
+                        <ChevronRight className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
             <div className="mt-3">
               <Label className="mb-2 text-xs text-muted-foreground">Opacity</Label>
               <Slider
@@ -665,6 +1406,18 @@ function App() {
                 {Math.round(inkOpacity * 100)}%
               </span>
             </div>
+            <div className="mt-3">
+              <Label className="mb-2 text-xs text-muted-foreground">Mixing</Label>
+              <Select value={mixingModel} onValueChange={(v) => setMixingModel(v as MixingModel)}>
+                <SelectTrigger className="h-9 w-full text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="multiply" className="text-xs">Multiply</SelectItem>
+                  <SelectItem value="kubelka-munk" className="text-xs">Kubelka–Munk</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </section>
 
           <Separator className="mb-6" />
@@ -684,6 +1437,7 @@ function App() {
                   <SelectContent>
                     <SelectItem value="natural" className="text-xs">Natural</SelectItem>
                     <SelectItem value="bold" className="text-xs">Bold</SelectItem>
+                    <SelectItem value="perceptual" className="text-xs">Perceptual</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -694,24 +1448,264 @@ function App() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="fm" className="text-xs">Dot Density</SelectItem>
-                    <SelectItem value="am" className="text-xs">Dot Size</SelectItem>
+                    {HALFTONE_MODES.map((m) => (
+                      <SelectItem key={m.value} value={m.value} className="text-xs">
+                        {m.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
+              {(usesAM || usesHybrid) && (
+                <div className="sm:col-span-2 lg:col-span-2">
+                  <Label className="mb-2 text-xs text-muted-foreground">Dot Shape</Label>
+                  <Select value={dotShape} onValueChange={(v) => setDotShape(v as DotShape)}>
+                    <SelectTrigger className="h-9 w-full text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DOT_SHAPES.map((s) => (
+                        <SelectItem key={s.value} value={s.value} className="text-xs">
+                          {s.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {usesHybrid && (
+                <div className="sm:col-span-2 lg:col-span-2">
+                  <Label className="mb-2 text-xs text-muted-foreground">Min Dot</Label>
+                  <Slider
+                    value={[minDotSize]}
+                    onValueChange={([v]) => setMinDotSize(v)}
+                    min={0.5}
+                    max={4}
+                    step={0.25}
+                    className="mt-2"
+                  />
+                  <span className="mt-1 block text-right font-mono text-[11px] text-muted-foreground">
+                    {minDotSize.toFixed(2)}px
+                  </span>
+                </div>
+              )}
+              {usesSolid && (
+                <div className="sm:col-span-2 lg:col-span-2">
+                  <Label className="mb-2 text-xs text-muted-foreground">Threshold</Label>
+                  <Slider
+                    value={[solidThreshold]}
+                    onValueChange={([v]) => setSolidThreshold(v)}
+                    min={0.05}
+                    max={0.95}
+                    step={0.05}
+                    className="mt-2"
+                  />
+                  <span className="mt-1 block text-right font-mono text-[11px] text-muted-foreground">
+                    {Math.round(solidThreshold * 100)}%
+                  </span>
+                </div>
+              )}
+              {usesLevels && (
+                <div className="sm:col-span-2 lg:col-span-2">
+                  <Label className="mb-2 text-xs text-muted-foreground">Levels</Label>
+                  <Slider
+                    value={[tintLevels]}
+                    onValueChange={([v]) => setTintLevels(v)}
+                    min={1}
+                    max={8}
+                    step={1}
+                    className="mt-2"
+                  />
+                  <span className="mt-1 block text-right font-mono text-[11px] text-muted-foreground">
+                    {tintLevels}
+                  </span>
+                </div>
+              )}
+              {usesFM && (
+                <div className="flex items-center gap-1.5 sm:col-span-2 lg:col-span-2">
+                  <Checkbox
+                    id="blue-noise"
+                    checked={blueNoise}
+                    onCheckedChange={(v: boolean) => setBlueNoise(v)}
+                  />
+                  <Label htmlFor="blue-noise" className="text-xs text-muted-foreground">
+                    Blue noise
+                  </Label>
+                </div>
+              )}
+              {usesDiffusion && (
+                <div className="sm:col-span-2 lg:col-span-2">
+                  <Label className="mb-2 text-xs text-muted-foreground">Diffusion</Label>
+                  <div className="flex items-center gap-3">
+                    <Select
+                      value={diffusionKernel}
+                      onValueChange={(v) => setDiffusionKernel(v as DiffusionKernel)}
+                    >
+                      <SelectTrigger className="h-9 min-w-0 flex-1 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DIFFUSION_KERNELS.map((k) => (
+                          <SelectItem key={k.value} value={k.value} className="text-xs">
+                            {k.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-1.5">
+                      <Checkbox
+                        id="serpentine"
+                        checked={serpentine}
+                        onCheckedChange={(v: boolean) => setSerpentine(v)}
+                      />
+                      <Label htmlFor="serpentine" className="text-xs text-muted-foreground">
+                        Serpentine
+                      </Label>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {usesOrdered && (
+                <div className="sm:col-span-2 lg:col-span-2">
+                  <Label className="mb-2 text-xs text-muted-foreground">Matrix</Label>
+                  <Select
+                    value={orderedMatrix}
+                    onValueChange={(v) => setOrderedMatrix(v as OrderedMatrix)}
+                  >
+                    <SelectTrigger className="h-9 w-full text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ORDERED_MATRICES.map((m) => (
+                        <SelectItem key={m.value} value={m.value} className="text-xs">
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {orderedMatrix === "custom" && (
+                    <Input
+                      value={thresholdText}
+                      onChange={(e) => {
+                        setThresholdText(e.target.value);
+                        const parsed = parseThresholdMatrix(e.target.value);
+                        if (parsed) setThresholdMatrix(parsed);
+                      }}
+                      placeholder="0 2; 3 1"
+                      aria-invalid={!thresholdValid}
+                      className="mt-2 h-8 px-2 font-mono text-xs"
+                    />
+                  )}
+                </div>
+              )}
+              {usesPattern && (
+                <div className="sm:col-span-2 lg:col-span-2">
+                  <Label className="mb-2 text-xs text-muted-foreground">Pattern</Label>
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 shrink-0 overflow-hidden rounded border border-input bg-white">
+                      {pattern && (
+                        <img src={pattern.src} alt="" className="h-full w-full object-cover" />
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      className="h-9 text-xs"
+                      onClick={() => patternInputRef.current?.click()}
+                    >
+                      Choose Pattern
+                    </Button>
+                    {pattern && (
+                      <button
+                        className="text-xs text-muted-foreground transition-colors hover:text-foreground"
+                        onClick={() => {
+                          URL.revokeObjectURL(pattern.src);
+                          setPattern(null);
+                        }}
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                  {patternError && (
+                    <span className="mt-1 block text-[11px] text-destructive" role="alert">
+                      {patternError}
+                    </span>
+                  )}
+                  <input
+                    ref={patternInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handlePatternChange}
+                    className="hidden"
+                  />
+                </div>
+              )}
               <div>
-                <Label className="mb-2 text-xs text-muted-foreground">Dot Size</Label>
-                <Slider
-                  value={[dotSize]}
-                  onValueChange={([v]) => setDotSize(v)}
-                  min={0.5}
-                  max={12}
-                  step={0.5}
-                  className="mt-2"
-                />
-                <span className="mt-1 block text-right font-mono text-[11px] text-muted-foreground">
-                  {dotSize.toFixed(1)}px
-                </span>
+                <div className="mb-2 flex items-center justify-between">
+                  <Label className="text-xs text-muted-foreground">
+                    {useRuling ? "Screen Ruling" : "Dot Size"}
+                  </Label>
+                  <div className="flex items-center gap-1.5">
+                    <Checkbox
+                      id="screen-ruling"
+                      checked={useRuling}
+                      onCheckedChange={(v: boolean) => setUseRuling(v)}
+                    />
+                    <Label htmlFor="screen-ruling" className="text-xs text-muted-foreground">
+                      LPI
+                    </Label>
+                  </div>
+                </div>
+                {useRuling ? (
+                  <>
+                    <Slider
+                      value={[lpi]}
+                      onValueChange={([v]) => setLpi(v)}
+                      min={10}
+                      max={150}
+                      step={5}
+                      className="mt-2"
+                    />
+                    <span className="mt-1 block text-right font-mono text-[11px] text-muted-foreground">
+                      {lpi} LPI · {screenPitch(lpi).toFixed(2)}mm dots
+                    </span>
+                    {rulingCell !== null && rulingCell < MIN_CELL_PX ? (
+                      <span className="mt-1 block text-right text-[11px] text-destructive">
+                        Too fine for {dpi} dpi — raise the dpi or lower the LPI
+                      </span>
+                    ) : previewCell !== null && previewCell < MIN_CELL_PX && (
+                      <span className="mt-1 block text-right text-[11px] text-muted-foreground">
+                        Finer than the preview can show; download to check the screen
+                      </span>
+                    )}
+                    <Select value={pdfPageSize} onValueChange={(v) => setPdfPageSize(v as PdfPageSize)}>
+                      <SelectTrigger className="mt-1 h-8 w-full text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {pdfPageSizeEntries.map(([key, size]) => (
+                          <SelectItem key={key} value={key} className="text-xs">
+                            {size.name} ({size.width} × {size.height} mm)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                ) : (
+                  <>
+                    <Slider
+                      value={[dotSize]}
+                      onValueChange={([v]) => setDotSize(v)}
+                      min={0.5}
+                      max={12}
+                      step={0.5}
+                      className="mt-2"
+                    />
+                    <span className="mt-1 block text-right font-mono text-[11px] text-muted-foreground">
+                      {dotSize.toFixed(1)}px
+                    </span>
+                  </>
+                )}
               </div>
               <div>
                 <Label className="mb-2 text-xs text-muted-foreground">Density</Label>
@@ -750,6 +1744,34 @@ function App() {
                   {misregistration}px
                 </span>
               </div>
+              <div>
+                <div className="mb-2 flex items-center justify-between">
+                  <Label className="text-xs text-muted-foreground">Trap</Label>
+                  <div className="flex items-center gap-1.5">
+                    <Checkbox
+                      id="trap-mm"
+                      checked={trapInMm}
+                      onCheckedChange={(v: boolean) => handleTrapUnitChange(v)}
+                    />
+                    <Label htmlFor="trap-mm" className="text-xs text-muted-foreground">
+                      mm
+                    </Label>
+                  </div>
+                </div>
+                <Slider
+                  value={[trapWidth]}
+                  onValueChange={([v]) => setTrapWidth(v)}
+                  min={0}
+                  max={trapInMm ? 1 : 4}
+                  step={trapInMm ? 0.05 : 0.5}
+                  className="mt-2"
+                />
+                <span className="mt-1 block text-right font-mono text-[11px] text-muted-foreground">
+                  {trapInMm
+                    ? `${trapWidth.toFixed(2)}mm on ${PDF_PAGE_SIZES[pdfPageSize].name}`
+                    : `${trapWidth}px`}
+                </span>
+              </div>
               <div>
                 <Label className="mb-2 text-xs text-muted-foreground">Noise</Label>
                 <Slider
@@ -764,6 +1786,21 @@ function App() {
                   {noise.toFixed(2)}
                 </span>
               </div>
+              <div>
+                <Label className="mb-2 text-xs text-muted-foreground">Seed</Label>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-[11px] text-muted-foreground">
+                    {seed}
+                  </span>
+                  <Button
+                    variant="outline"
+                    className="h-8 gap-1.5 text-xs"
+                    onClick={() => setSeed(randomSeed())}
+                  >
+                    <Dices className="h-3.5 w-3.5" /> Re-roll
+                  </Button>
+                </div>
+              </div>
             </div>
           </section>
         </div>
@@ -777,18 +1814,37 @@ function App() {
                 ref={canvasRef}
                 src={imageSrc}
                 colors={colors}
-                width={Math.round(canvasWidth)}
+                width={previewWidth}
+                style={{ width: Math.round(canvasWidth) }}
                 dotSize={dotSize}
                 misregistration={misregistration}
+                trap={trap}
                 grain={0}
                 density={density}
                 inkOpacity={inkOpacity}
+                mixingModel={mixingModel}
+                printOrder={printOrder}
                 paperColor={paperColor}
+                paperStock={paperStock}
+                compensateDotGain={compensateDotGain}
                 halftoneMode={halftoneMode}
+                dotShape={dotShape}
+                minDotSize={minDotSize}
+                solidThreshold={solidThreshold}
+                tintLevels={tintLevels}
+                fmNoise={blueNoise ? "blue" : "white"}
+                diffusionKernel={diffusionKernel}
+                serpentine={serpentine}
+                orderedMatrix={orderedMatrix}
+                thresholdMatrix={thresholdMatrix}
+                pattern={pattern?.tile}
                 colorMode={colorMode}
                 noise={noise}
                 transparentBg={transparentBg}
                 invert={invert}
+                seed={seed}
+                referenceWidth={BASE_WIDTH}
+                screenRuling={ruling}
                 className="max-h-full shadow-lg"
               />
             ) : (
@@ -797,17 +1853,40 @@ function App() {
           </div>
 
           {/* Download bar: always visible */}
-          <div className="mt-4 flex shrink-0 items-center justify-center gap-2 sm:justify-end">
-            <Select value={downloadScale} onValueChange={setDownloadScale}>
-              <SelectTrigger className="h-9 w-28 text-xs">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="1" className="text-xs">1x (600px)</SelectItem>
-                <SelectItem value="2" className="text-xs">2x (1200px)</SelectItem>
-                <SelectItem value="4" className="text-xs">4x (2400px)</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="mt-4 flex shrink-0 flex-wrap items-center justify-center gap-2 sm:justify-end">
+            {exportError && (
+              <span className="text-[11px] text-destructive" role="alert">
+                {exportError}
+              </span>
+            )}
+            {useRuling ? (
+              <Select value={String(dpi)} onValueChange={(v) => setDpi(Number(v))}>
+                <SelectTrigger className="h-9 w-28 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OUTPUT_DPIS.map((v) => (
+                    <SelectItem key={v} value={String(v)} className="text-xs">
+                      {v} dpi
+                      {outputSize && v === dpi && ` (${outputSize.width}px)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Select value={downloadScale} onValueChange={setDownloadScale}>
+                <SelectTrigger className="h-9 w-28 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["1", "2", "4"].map((v) => (
+                    <SelectItem key={v} value={v} className="text-xs">
+                      {v}x ({BASE_WIDTH * Number(v)}px)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <Button
               variant="outline"
               className="h-9 shrink-0 gap-1.5 text-xs"
@@ -815,8 +1894,92 @@ function App() {
               disabled={downloading}
             >
               <Download className="h-3.5 w-3.5" />
-              {downloading ? "Processing..." : "Download PNG"}
+              {downloading
+                ? `Processing...${downloadProgress !== null ? ` ${Math.round(downloadProgress * 100)}%` : ""}`
+                : "Download PNG"}
+            </Button>
+            <Button
+              variant="outline"
+              className="h-9 shrink-0 gap-1.5 text-xs"
+              onClick={handleDownloadPlates}
+              disabled={downloading || colors.length === 0}
+            >
+              <Layers className="h-3.5 w-3.5" />
+              Download plates
             </Button>
+            <Button
+              variant="outline"
+              className="h-9 shrink-0 gap-1.5 text-xs"
+              onClick={handleDownloadSvg}
+              disabled={downloading || colors.length === 0 || svgUnavailable !== null}
+              title={svgUnavailable ?? undefined}
+            >
+              <PenTool className="h-3.5 w-3.5" />
+              SVG
+            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="h-9 shrink-0 gap-1.5 text-xs"
+                  disabled={downloading || colors.length === 0}
+                >
+                  <FileDown className="h-3.5 w-3.5" />
+                  PDF
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-60 p-3" align="end">
+                <div className="space-y-3">
+                  <div>
+                    <Label className="mb-2 text-xs text-muted-foreground">Page size</Label>
+                    <Select value={pdfPageSize} onValueChange={(v) => setPdfPageSize(v as PdfPageSize)}>
+                      <SelectTrigger className="h-8 w-full text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {pdfPageSizeEntries.map(([key, size]) => (
+                          <SelectItem key={key} value={key} className="text-xs">
+                            {size.name} ({size.width} × {size.height} mm)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="mb-2 text-xs text-muted-foreground">Bleed</Label>
+                    <Slider
+                      value={[pdfBleed]}
+                      onValueChange={([v]) => setPdfBleed(v)}
+                      min={0}
+                      max={10}
+                      step={0.5}
+                      className="mt-2"
+                    />
+                    <span className="mt-1 block text-right font-mono text-[11px] text-muted-foreground">
+                      {pdfBleed}mm
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    <Checkbox
+                      id="pdf-marks"
+                      checked={pdfMarks}
+                      onCheckedChange={(v: boolean) => setPdfMarks(v)}
+                    />
+                    <Label htmlFor="pdf-marks" className="text-xs text-muted-foreground">
+                      Crop &amp; registration marks
+                    </Label>
+                  </div>
+                  <Button
+                    className="h-8 w-full gap-1.5 text-xs"
+                    onClick={handleDownloadPdf}
+                    disabled={downloading}
+                  >
+                    <FileDown className="h-3.5 w-3.5" />
+                    {downloading ? "Processing..." : "Download PDF"}
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
           </div>
         </div>
       </div>
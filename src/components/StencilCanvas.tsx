@@ -6,15 +6,23 @@ import {
   forwardRef,
 } from "react";
 import {
-  processStencil,
   loadImage,
   getImageData,
   type StencilColor,
   type HalftoneMode,
   type ColorMode,
+  type DiffusionKernel,
+  type DotShape,
+  type FMNoise,
+  type HalftonePattern,
+  type MixingModel,
+  type OrderedMatrix,
+  type PaperStock,
+  type ScreenRuling,
 } from "../lib/stencil";
+import { createPreviewRenderer, type PreviewRenderer } from "../lib/previewRenderer";
 
-export type { StencilColor, HalftoneMode, ColorMode };
+export type { StencilColor, HalftoneMode, ColorMode, DiffusionKernel, DotShape, FMNoise, HalftonePattern, OrderedMatrix };
 
 export interface StencilCanvasHandle {
   getCanvas: () => HTMLCanvasElement | null;
@@ -23,19 +31,39 @@ export interface StencilCanvasHandle {
 export interface StencilCanvasProps {
   src: string;
   colors: StencilColor[];
+  printOrder?: number[];
   width?: number;
   height?: number;
   dotSize?: number;
   misregistration?: number;
+  trap?: number;
   grain?: number;
   density?: number;
   inkOpacity?: number;
+  mixingModel?: MixingModel;
   paperColor?: string;
+  paperStock?: PaperStock;
+  compensateDotGain?: boolean;
   halftoneMode?: HalftoneMode;
+  dotShape?: DotShape;
+  minDotSize?: number;
+  solidThreshold?: number;
+  tintLevels?: number;
+  fmNoise?: FMNoise;
+  diffusionKernel?: DiffusionKernel;
+  serpentine?: boolean;
+  orderedMatrix?: OrderedMatrix;
+  thresholdMatrix?: number[][];
+  pattern?: HalftonePattern;
   colorMode?: ColorMode;
   noise?: number;
   transparentBg?: boolean;
   invert?: boolean;
+  seed?: number;
+  /** dotSize・misregistration の基準となる画像幅 (px)。表示幅が変わっても同じ見た目を保つ */
+  referenceWidth?: number;
+  /** スクリーン線数と印刷幅。指定すると dotSize の代わりに線数からセルサイズを決める */
+  screenRuling?: ScreenRuling;
   className?: string;
   style?: React.CSSProperties;
 }
@@ -43,6 +71,19 @@ export interface StencilCanvasProps {
 /** スライダー操作が止まってからの待ち時間 */
 const DEBOUNCE_MS = 300;
 
+/** パラメータキー用にオブジェクトの同一性を番号で表す */
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+function objectKey(obj: object | undefined): string {
+  if (!obj) return "";
+  let id = objectIds.get(obj);
+  if (!id) {
+    id = nextObjectId++;
+    objectIds.set(obj, id);
+  }
+  return String(id);
+}
+
 export const StencilCanvas = forwardRef<
   StencilCanvasHandle,
   StencilCanvasProps
@@ -54,15 +95,33 @@ export const StencilCanvas = forwardRef<
     height,
     dotSize = 4,
     misregistration = 2,
+    trap = 0,
     grain = 0.1,
     density = 1,
     inkOpacity = 0.85,
+    mixingModel = "multiply",
+    printOrder,
     paperColor,
+    paperStock = "none",
+    compensateDotGain = false,
     halftoneMode,
+    dotShape,
+    minDotSize,
+    solidThreshold,
+    tintLevels,
+    fmNoise,
+    diffusionKernel,
+    serpentine,
+    orderedMatrix,
+    thresholdMatrix,
+    pattern,
     colorMode,
     noise = 0,
     transparentBg = false,
     invert = false,
+    seed = 0,
+    referenceWidth,
+    screenRuling,
     className,
     style,
   },
@@ -118,9 +177,11 @@ export const StencilCanvas = forwardRef<
 
   // 処理パラメータのキーを生成し、完了キーと比較して processing を派生
   const paramsKey = [
-    dotSize, density, inkOpacity, halftoneMode, colorMode, noise, misregistration,
-    transparentBg, invert, paperColor, grain,
-    colors.map((c) => c.color).join(","),
+    dotSize, density, inkOpacity, halftoneMode, dotShape, minDotSize, solidThreshold, tintLevels, fmNoise, diffusionKernel, serpentine, orderedMatrix,
+    JSON.stringify(thresholdMatrix ?? null), objectKey(pattern), colorMode, noise, misregistration, trap,
+    transparentBg, invert, mixingModel, paperColor, paperStock, compensateDotGain, grain, seed, referenceWidth,
+    screenRuling ? `${screenRuling.lpi}@${screenRuling.printWidth}` : "",
+    JSON.stringify(colors), JSON.stringify(printOrder ?? null),
   ].join("|");
   const [processedKey, setProcessedKey] = useState("");
   const processing = imageData !== null && processedKey !== paramsKey;
@@ -128,43 +189,96 @@ export const StencilCanvas = forwardRef<
 
   // 最新パラメータを ref で保持
   const paramsRef = useRef({
-    colors, dotSize, misregistration, grain, density, inkOpacity, paperColor, halftoneMode, colorMode, noise, transparentBg, invert,
+    colors, printOrder, dotSize, misregistration, trap, grain, density, inkOpacity, mixingModel, paperColor, paperStock, compensateDotGain, halftoneMode, dotShape, minDotSize, solidThreshold, tintLevels, fmNoise, diffusionKernel, serpentine, orderedMatrix, thresholdMatrix, pattern, colorMode, noise, transparentBg, invert, seed, referenceWidth, screenRuling,
   });
   useEffect(() => {
     paramsRef.current = {
-      colors, dotSize, misregistration, grain, density, inkOpacity, paperColor, halftoneMode, colorMode, noise, transparentBg, invert,
+      colors, printOrder, dotSize, misregistration, trap, grain, density, inkOpacity, mixingModel, paperColor, paperStock, compensateDotGain, halftoneMode, dotShape, minDotSize, solidThreshold, tintLevels, fmNoise, diffusionKernel, serpentine, orderedMatrix, thresholdMatrix, pattern, colorMode, noise, transparentBg, invert, seed, referenceWidth, screenRuling,
     };
   });
 
-  // debounce でステンシル印刷処理を実行
+  // プレビュー処理用の常駐 Worker（アンマウント時に終了）
+  const rendererRef = useRef<PreviewRenderer | null>(null);
+  useEffect(() => {
+    const renderer = createPreviewRenderer();
+    rendererRef.current = renderer;
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  const [progress, setProgress] = useState(0);
+
+  // debounce 後に Worker でステンシル印刷処理を実行
+  // パラメータが変わると実行中のジョブは中断される
   useEffect(() => {
     if (!imageData) return;
 
+    const controller = new AbortController();
     const timerId = setTimeout(() => {
-      setTimeout(() => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const p = paramsRef.current;
-        processStencil(imageData, canvas, {
-          colors: p.colors,
-          dotSize: p.dotSize,
-          misregistration: p.misregistration,
-          grain: p.grain,
-          density: p.density,
-          inkOpacity: p.inkOpacity,
-          paperColor: p.paperColor,
-          halftoneMode: p.halftoneMode,
-          colorMode: p.colorMode,
-          noise: p.noise,
-          transparentBg: p.transparentBg,
-          invert: p.invert,
+      const renderer = rendererRef.current;
+      if (!renderer) return;
+      const p = paramsRef.current;
+      setProgress(0);
+      renderer
+        .render(
+          imageData,
+          {
+            colors: p.colors,
+            printOrder: p.printOrder,
+            dotSize: p.dotSize,
+            misregistration: p.misregistration,
+            trap: p.trap,
+            grain: p.grain,
+            density: p.density,
+            inkOpacity: p.inkOpacity,
+            mixingModel: p.mixingModel,
+            paperColor: p.paperColor,
+            paperStock: p.paperStock,
+            compensateDotGain: p.compensateDotGain,
+            halftoneMode: p.halftoneMode,
+            dotShape: p.dotShape,
+            minDotSize: p.minDotSize,
+            solidThreshold: p.solidThreshold,
+            tintLevels: p.tintLevels,
+            fmNoise: p.fmNoise,
+            diffusionKernel: p.diffusionKernel,
+            serpentine: p.serpentine,
+            orderedMatrix: p.orderedMatrix,
+            thresholdMatrix: p.thresholdMatrix,
+            pattern: p.pattern,
+            colorMode: p.colorMode,
+            noise: p.noise,
+            transparentBg: p.transparentBg,
+            invert: p.invert,
+            seed: p.seed,
+            referenceWidth: p.referenceWidth,
+            screenRuling: p.screenRuling,
+          },
+          { signal: controller.signal, onProgress: setProgress }
+        )
+        .then((pixels) => {
+          const canvas = canvasRef.current;
+          if (!canvas) return;
+          const { width, height } = imageData;
+          canvas.width = width;
+          canvas.height = height;
+          const ctx = canvas.getContext("2d")!;
+          const output = ctx.createImageData(width, height);
+          output.data.set(pixels);
+          ctx.putImageData(output, 0, 0);
+          setProcessedKey(paramsKey);
+        })
+        .catch((e) => {
+          if (controller.signal.aborted) return;
+          setError(e instanceof Error ? e.message : "Failed to process image");
         });
-        setProcessedKey(paramsKey);
-      }, 0);
     }, DEBOUNCE_MS);
 
     return () => {
       clearTimeout(timerId);
+      controller.abort();
     };
   }, [imageData, paramsKey]);
 
@@ -202,7 +316,7 @@ export const StencilCanvas = forwardRef<
             pointerEvents: "none",
           }}
         >
-          {loading ? "Loading..." : "Processing..."}
+          {loading ? "Loading..." : `Processing... ${Math.round(progress * 100)}%`}
         </div>
       )}
       {error && (
@@ -0,0 +1,132 @@
+/**
+ * ブルーノイズしきい値テクスチャ
+ *
+ * void-and-cluster 法 (Ulichney, 1993) でトーラス状に繋がるしきい値テクスチャを生成する。
+ * 低周波成分を含まないため、ホワイトノイズのような塊や穴ができず、
+ * どの濃度でもドットが均等に散らばる。バイナリアセットを持たずにライブラリ内で生成する。
+ */
+
+import { createRng } from "./random";
+
+/** テクスチャの一辺のデフォルト (px) */
+export const BLUE_NOISE_SIZE = 64;
+
+/** エネルギー計算に使うガウス関数の標準偏差 */
+const SIGMA = 1.5;
+
+/** 初期パターンで点灯させる割合 */
+const INITIAL_FILL = 0.1;
+
+/** テクスチャ生成に使う固定シード（常に同じテクスチャにする） */
+const TEXTURE_SEED = 0x5eed;
+
+/** 生成済みテクスチャ（サイズごと） */
+const cache = new Map<number, Float32Array>();
+
+/**
+ * size×size のブルーノイズしきい値テクスチャを返す。
+ * 各要素は (順位 + 0.5) / 要素数 の 0–1 の値で、しきい値として使うと
+ * 濃度 d のとき要素の割合 d が点灯する。結果はサイズごとにキャッシュする。
+ */
+export function getBlueNoiseTexture(size = BLUE_NOISE_SIZE): Float32Array {
+  let texture = cache.get(size);
+  if (!texture) {
+    texture = generateVoidAndCluster(size);
+    cache.set(size, texture);
+  }
+  return texture;
+}
+
+function generateVoidAndCluster(size: number): Float32Array {
+  const n = size * size;
+
+  // トーラス上の距離に対するガウス重み（オフセットごとに前計算）
+  const kernel = new Float32Array(n);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      kernel[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * SIGMA * SIGMA));
+    }
+  }
+
+  /** p の点を on/off したときのエネルギー変化を全要素に反映する */
+  const splat = (energy: Float32Array, p: number, sign: number) => {
+    const px = p % size;
+    const py = (p / size) | 0;
+    for (let y = 0; y < size; y++) {
+      const ky = ((y - py + size) % size) * size;
+      const row = y * size;
+      for (let x = 0; x < size; x++) {
+        energy[row + x] += sign * kernel[ky + ((x - px + size) % size)];
+      }
+    }
+  };
+
+  /** 点灯している中で最も混み合った点 */
+  const tightestCluster = (pattern: Uint8Array, energy: Float32Array) => {
+    let best = -1;
+    for (let i = 0; i < n; i++) {
+      if (pattern[i] && (best < 0 || energy[i] > energy[best])) best = i;
+    }
+    return best;
+  };
+
+  /** 消灯している中で最も空いた点 */
+  const largestVoid = (pattern: Uint8Array, energy: Float32Array) => {
+    let best = -1;
+    for (let i = 0; i < n; i++) {
+      if (!pattern[i] && (best < 0 || energy[i] < energy[best])) best = i;
+    }
+    return best;
+  };
+
+  // 初期パターン: ランダムに点を置き、最も混んだ点を最も空いた場所へ移して均す
+  const rng = createRng(TEXTURE_SEED);
+  const initial = new Uint8Array(n);
+  const initialEnergy = new Float32Array(n);
+  const ones = Math.max(1, Math.round(n * INITIAL_FILL));
+  for (let placed = 0; placed < ones; ) {
+    const p = Math.floor(rng() * n);
+    if (initial[p]) continue;
+    initial[p] = 1;
+    splat(initialEnergy, p, 1);
+    placed++;
+  }
+  // 通常は数十回で収束する。念のため回数に上限を設ける
+  for (let iter = 0; iter < n; iter++) {
+    const cluster = tightestCluster(initial, initialEnergy);
+    initial[cluster] = 0;
+    splat(initialEnergy, cluster, -1);
+    const hole = largestVoid(initial, initialEnergy);
+    initial[hole] = 1;
+    splat(initialEnergy, hole, 1);
+    if (hole === cluster) break;
+  }
+
+  const ranks = new Uint32Array(n);
+
+  // フェーズ 1: 初期パターンから混んだ点を順に抜き、順位を下から付ける
+  const pattern = initial.slice();
+  const energy = initialEnergy.slice();
+  for (let rank = ones - 1; rank >= 0; rank--) {
+    const cluster = tightestCluster(pattern, energy);
+    pattern[cluster] = 0;
+    splat(energy, cluster, -1);
+    ranks[cluster] = rank;
+  }
+
+  // フェーズ 2: 初期パターンから空いた場所へ順に点を足し、順位を上へ付ける
+  pattern.set(initial);
+  energy.set(initialEnergy);
+  for (let rank = ones; rank < n; rank++) {
+    const hole = largestVoid(pattern, energy);
+    pattern[hole] = 1;
+    splat(energy, hole, 1);
+    ranks[hole] = rank;
+  }
+
+  const texture = new Float32Array(n);
+  for (let i = 0; i < n; i++) texture[i] = (ranks[i] + 0.5) / n;
+  return texture;
+}
@@ -36,3 +36,32 @@ export function multiplyBlend(a: RGB, b: RGB): RGB {
     b: (a.b * b.b) / 255,
   };
 }
+
+/** sRGB の 1 チャンネル (0-255) をリニア光 (0-1) に変換 */
+export function srgbToLinear(v: number): number {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/** リニア光 (0-1) を sRGB の 1 チャンネル (0-255、小数のまま) に変換 */
+export function linearToSrgb(v: number): number {
+  const c = Math.max(0, Math.min(1, v));
+  return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+}
+
+/** CIELAB の非線形圧縮 f(t) */
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+/** リニア sRGB (0-1) を CIELAB (D65 白色点) に変換。白 (1, 1, 1) が L = 100 になる */
+export function linearToLab(r: number, g: number, b: number): [number, number, number] {
+  // sRGB → XYZ を白色点で割った値
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.072175 * b;
+  const z = (0.0193339 * r + 0.119192 * g + 0.9503041 * b) / 1.08883;
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "vitest";
+import { hexToRgb, type RGB } from "./color";
+import { createPrintModel, measureDecompositionError } from "./decompose";
+import type { InkOpacityClass } from "./kubelkaMunk";
+import { PRESETS } from "../presets";
+
+/** LUT の三線形補間で許容する濃度の最大誤差 */
+const MAX_LUT_ERROR = 0.03;
+
+/**
+ * 刷り上がりのモデルで解く場合に許容する、刷り上がりの色差 ΔE76 の最大値。
+ * 同じ色を出すインクの組み合わせが複数ある場合は濃度が一意に決まらないため、色で比べる
+ */
+const MAX_LUT_COLOR_ERROR = 4;
+
+const WHITE: RGB = { r: 255, g: 255, b: 255 };
+
+/**
+ * インクで刷れる色を網羅した検証用画像。各インクの濃度を steps 段に振った全組み合わせを刷る。
+ * 刷れない色は最も近い色が濃度の離れた組み合わせの間で入れ替わり、補間では追えないため含めない
+ */
+function printableSweep(inks: RGB[], opacityClasses: InkOpacityClass[] | null) {
+  const steps = inks.length > 3 ? 7 : 11;
+  const width = steps ** inks.length;
+  const print = createPrintModel(inks, WHITE, opacityClasses);
+  const data = new Uint8ClampedArray(width * 4);
+  const densities = new Float64Array(inks.length);
+  const color = new Float64Array(3);
+  for (let p = 0; p < width; p++) {
+    for (let i = 0, q = p; i < inks.length; i++, q = Math.floor(q / steps)) {
+      densities[i] = (q % steps) / (steps - 1);
+    }
+    print(densities, color);
+    data.set([color[0], color[1], color[2], 255], p * 4);
+  }
+  return { data, width, height: 1 };
+}
+
+const presets = Object.entries(PRESETS).map(([key, preset]) => ({
+  key,
+  inks: preset.colors.map((c) => hexToRgb(c.color)),
+  opacityClasses: preset.colors.map((c): InkOpacityClass => ("opacityClass" in c ? c.opacityClass : "transparent")),
+}));
+
+describe("decomposition LUT", () => {
+  // RGB 空間全体の格子点の中間で、LUT とピクセル単位の NNLS の濃度差を測る
+  test.each(presets)("matches the exact solver for $key", ({ inks }) => {
+    const { maxError } = measureDecompositionError(inks, WHITE);
+    expect(maxError).toBeLessThan(MAX_LUT_ERROR);
+  });
+
+  test.each(presets)("matches the exact perceptual solver for $key", ({ inks }) => {
+    const { maxColorError } = measureDecompositionError(
+      inks, WHITE, printableSweep(inks, null), undefined, "lab"
+    );
+    expect(maxColorError).toBeLessThan(MAX_LUT_COLOR_ERROR);
+  });
+
+  test.each(presets)("matches the exact Kubelka–Munk solver for $key", ({ inks, opacityClasses }) => {
+    const { maxColorError } = measureDecompositionError(
+      inks, WHITE, printableSweep(inks, opacityClasses), undefined, "rgb", opacityClasses
+    );
+    expect(maxColorError).toBeLessThan(MAX_LUT_COLOR_ERROR);
+  });
+});
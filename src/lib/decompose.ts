@@ -0,0 +1,502 @@
+/**
+ * インク濃度への色分解エンジン
+ *
+ * 非負最小二乗法 (NNLS) のピクセル単位ソルバーと、
+ * それを RGB 格子上で事前計算した 3D ルックアップテーブル (LUT) を提供する。
+ * 写真は限られた色を繰り返し使うため、LUT の三線形補間で十分な精度が出る。
+ *
+ * 知覚モード ("lab") では、インクを透過フィルタとみなした乗算合成の結果が
+ * CIELAB で元の色に最も近くなる（ΔE76 が最小になる）濃度を求める。
+ * RGB の差分で解くと肌色や淡い色で色相がずれるため、その補正に使う。
+ * Kubelka–Munk の混色モデルでも、合成ステージと同じ重ね刷りのモデルで濃度を求める。
+ */
+
+import { linearToLab, srgbToLinear, type RGB } from "./color";
+import { inkFilm, printCurves, samplePrintCurve, type InkOpacityClass } from "./kubelkaMunk";
+import type { ImageDataLike } from "./stencil";
+
+/** 色分解の方式。"lut" = 3D LUT の三線形補間、"exact" = ピクセルごとに NNLS を解く */
+export type DecomposeMethod = "lut" | "exact";
+
+/** 色分解で誤差を測る色空間。"rgb" = sRGB の差分、"lab" = 乗算合成後の CIELAB 色差 */
+export type DecomposeSpace = "rgb" | "lab";
+
+/** LUT の 1 軸あたりの格子点数のデフォルト (33³) */
+export const DEFAULT_LUT_SIZE = 33;
+
+/** 透明とみなすアルファ値 */
+const ALPHA_CUTOFF = 0.01;
+
+/** 座標降下法の反復回数 */
+const MAX_ITER = 12;
+
+/** 刷り上がりのモデルで解くときのガウス・ニュートン法の反復回数 */
+const MODEL_ITER = 8;
+
+/** 同じく減衰項（色差² / 濃度²）。色の誤差に効かない方向は初期値から動かさない */
+const MODEL_DAMPING = 1;
+
+/** 同じく十分に一致したとみなす色差の 2 乗 */
+const MODEL_TOLERANCE = 1e-4;
+
+/**
+ * 1 色 (RGB 0–255) をインク濃度 (0–1) に分解する関数を生成する。
+ *
+ * 各色を「紙色からの差分（＝インクが吸収すべき量）」として捉え、
+ * 各インク色の吸収ベクトルの非負線形結合で近似する。
+ *
+ *   target ≈ Σ d_i × inkDelta_i   (0 ≤ d_i ≤ 1)
+ *
+ * 座標降下法で解くため色数が何色でも自動的に対応する。
+ */
+function createInkSolver(
+  inkRgbs: RGB[],
+  paper: RGB
+): (r: number, g: number, b: number, out: Float64Array) => void {
+  const n = inkRgbs.length;
+
+  // 各インクの「吸収ベクトル」: (paper - ink) / 255
+  const inkDeltas: [number, number, number][] = inkRgbs.map((ink) => [
+    (paper.r - ink.r) / 255,
+    (paper.g - ink.g) / 255,
+    (paper.b - ink.b) / 255,
+  ]);
+
+  // 事前計算: 各インクペアのドット積
+  const dotInkInk = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      const dot =
+        inkDeltas[i][0] * inkDeltas[j][0] +
+        inkDeltas[i][1] * inkDeltas[j][1] +
+        inkDeltas[i][2] * inkDeltas[j][2];
+      dotInkInk[i * n + j] = dot;
+      dotInkInk[j * n + i] = dot;
+    }
+  }
+
+  const dotInkTarget = new Float64Array(n);
+
+  return (r, g, b, densities) => {
+    const tr = (paper.r - r) / 255;
+    const tg = (paper.g - g) / 255;
+    const tb = (paper.b - b) / 255;
+
+    // 各インクと target のドット積
+    for (let i = 0; i < n; i++) {
+      dotInkTarget[i] =
+        inkDeltas[i][0] * tr +
+        inkDeltas[i][1] * tg +
+        inkDeltas[i][2] * tb;
+    }
+
+    // 初期値: 単純射影
+    for (let i = 0; i < n; i++) {
+      const selfDot = dotInkInk[i * n + i];
+      densities[i] =
+        selfDot > 1e-10
+          ? Math.max(0, Math.min(1, dotInkTarget[i] / selfDot))
+          : 0;
+    }
+
+    // 座標降下法で反復改善
+    for (let iter = 0; iter < MAX_ITER; iter++) {
+      for (let i = 0; i < n; i++) {
+        let numerator = dotInkTarget[i];
+        for (let j = 0; j < n; j++) {
+          if (j !== i) numerator -= densities[j] * dotInkInk[i * n + j];
+        }
+        const selfDot = dotInkInk[i * n + i];
+        densities[i] =
+          selfDot > 1e-10
+            ? Math.max(0, Math.min(1, numerator / selfDot))
+            : 0;
+      }
+    }
+  };
+}
+
+/**
+ * インク濃度 (0–1) から刷り上がりの sRGB 値 (0–255) を求める関数を生成する。
+ * 合成ステージと同じ式で、乗算モデルでは各インクを透過フィルタとみなし
+ *
+ *   R = paper × Π (1 − d_i × (1 − ink_i / 255))
+ *
+ * とする。独立な網点を重ねたときの面積平均がこの積になる。
+ * Kubelka–Munk モデル（opacityClasses を指定）では配列の順にインク膜を重ね、
+ * 膜の重なりはリニア光で、各層の結果と下地の按分は sRGB の値で濃度に比例させる。
+ */
+export function createPrintModel(
+  inkRgbs: RGB[],
+  paper: RGB,
+  opacityClasses: InkOpacityClass[] | null = null
+): (densities: ArrayLike<number>, out: Float64Array) => void {
+  const n = inkRgbs.length;
+  const base = [paper.r, paper.g, paper.b];
+  // 各インクの吸収率 (1 − ink / 255)
+  const absorb = inkRgbs.map((ink) => [1 - ink.r / 255, 1 - ink.g / 255, 1 - ink.b / 255]);
+  // Kubelka–Munk: 下地の sRGB 値から膜を刷った後の sRGB 値への対応表（合成ステージと共通）
+  const curves = opacityClasses
+    ? inkRgbs.map((ink, i) => printCurves(inkFilm(ink, opacityClasses[i])))
+    : null;
+
+  return (d, out) => {
+    for (let c = 0; c < 3; c++) {
+      let t = base[c];
+      if (curves) {
+        for (let i = 0; i < n; i++) t += d[i] * (samplePrintCurve(curves[i][c], t) - t);
+      } else {
+        for (let i = 0; i < n; i++) t *= 1 - d[i] * absorb[i][c];
+      }
+      out[c] = t;
+    }
+  };
+}
+
+/** sRGB (0–255) を CIELAB に変換 */
+function srgbToLab(r: number, g: number, b: number): [number, number, number] {
+  return linearToLab(srgbToLinear(r), srgbToLinear(g), srgbToLinear(b));
+}
+
+/**
+ * 1 色 (RGB 0–255) を、刷り上がりのモデル (createPrintModel) で元の色に最も近くなる
+ * インク濃度 (0–1) に分解する関数を生成する。
+ * 誤差は space が "lab" なら ΔE76、"rgb" なら sRGB の差で測り、
+ * RGB の NNLS の解を初期値に、濃度の範囲内で減衰つきガウス・ニュートン法で下げる。
+ */
+function createModelSolver(
+  inkRgbs: RGB[],
+  paper: RGB,
+  space: DecomposeSpace,
+  opacityClasses: InkOpacityClass[] | null
+): (r: number, g: number, b: number, out: Float64Array) => void {
+  const n = inkRgbs.length;
+  const initial = createInkSolver(inkRgbs, paper);
+  const reflect = createPrintModel(inkRgbs, paper, opacityClasses);
+
+  const refl = new Float64Array(3);
+  const jac = new Float64Array(3 * n); // ∂(誤差を測る色)/∂d
+  const jtj = new Float64Array(n * n);
+  const jtr = new Float64Array(n);
+  const step = new Float64Array(n);
+  const trial = new Float64Array(n);
+
+  // sRGB 値から誤差を測る色空間への変換。sRGB は Lab と桁を揃えるため 0–100 にする
+  const measure = (sr: number, sg: number, sb: number): [number, number, number] =>
+    space === "lab" ? srgbToLab(sr, sg, sb) : [sr / 2.55, sg / 2.55, sb / 2.55];
+  const sqError = (m: [number, number, number], target: [number, number, number]) =>
+    (m[0] - target[0]) ** 2 + (m[1] - target[1]) ** 2 + (m[2] - target[2]) ** 2;
+
+  return (r, g, b, densities) => {
+    initial(r, g, b, densities);
+    const target = measure(r, g, b);
+
+    reflect(densities, refl);
+    let current = measure(refl[0], refl[1], refl[2]);
+    let err = sqError(current, target);
+
+    for (let iter = 0; iter < MODEL_ITER && err > MODEL_TOLERANCE; iter++) {
+      // ヤコビアンは濃度を少しずつ動かした差分で近似する
+      for (let i = 0; i < n; i++) {
+        const h = 1e-4;
+        const saved = densities[i];
+        densities[i] = saved + h;
+        reflect(densities, refl);
+        densities[i] = saved;
+        const shifted = measure(refl[0], refl[1], refl[2]);
+        for (let k = 0; k < 3; k++) jac[k * n + i] = (shifted[k] - current[k]) / h;
+      }
+      // 正規方程式 (JᵀJ + λI) δ = −Jᵀ(現在の色 − target)
+      for (let i = 0; i < n; i++) {
+        jtr[i] = 0;
+        for (let k = 0; k < 3; k++) jtr[i] += jac[k * n + i] * (current[k] - target[k]);
+        for (let j = 0; j < n; j++) {
+          let dot = 0;
+          for (let k = 0; k < 3; k++) dot += jac[k * n + i] * jac[k * n + j];
+          jtj[i * n + j] = dot + (i === j ? MODEL_DAMPING : 0);
+        }
+        step[i] = 0;
+      }
+      // 濃度が 0–1 に収まるよう、座標降下法で範囲つきの δ を求める
+      for (let sweep = 0; sweep < MAX_ITER; sweep++) {
+        for (let i = 0; i < n; i++) {
+          let numerator = -jtr[i];
+          for (let j = 0; j < n; j++) {
+            if (j !== i) numerator -= jtj[i * n + j] * step[j];
+          }
+          const next = numerator / jtj[i * n + i];
+          step[i] = Math.max(-densities[i], Math.min(1 - densities[i], next));
+        }
+      }
+
+      // 誤差が下がるまで歩幅を半分にする
+      let scale = 1;
+      let improved = false;
+      for (let tries = 0; tries < 4 && !improved; tries++, scale *= 0.5) {
+        for (let i = 0; i < n; i++) trial[i] = densities[i] + step[i] * scale;
+        reflect(trial, refl);
+        const trialColor = measure(refl[0], refl[1], refl[2]);
+        const trialErr = sqError(trialColor, target);
+        if (trialErr < err) {
+          densities.set(trial);
+          current = trialColor;
+          err = trialErr;
+          improved = true;
+        }
+      }
+      if (!improved) break;
+    }
+  };
+}
+
+/**
+ * 色空間と混色モデルに応じたピクセル単位ソルバーを生成する。
+ * 乗算モデルで sRGB の差を測る場合だけ線形の NNLS で解ける。
+ */
+function createSolver(
+  inkRgbs: RGB[],
+  paper: RGB,
+  space: DecomposeSpace,
+  opacityClasses: InkOpacityClass[] | null
+): (r: number, g: number, b: number, out: Float64Array) => void {
+  return space === "rgb" && !opacityClasses
+    ? createInkSolver(inkRgbs, paper)
+    : createModelSolver(inkRgbs, paper, space, opacityClasses);
+}
+
+/** インク構成ごとの色分解 LUT */
+export interface DecompositionLut {
+  /** 1 軸あたりの格子点数 */
+  size: number;
+  /** インク数 */
+  inkCount: number;
+  /** 濃度値。インデックスは ((ri * size + gi) * size + bi) * inkCount + i */
+  table: Float32Array;
+}
+
+/**
+ * RGB 格子上の各点で色分解を解き、色分解 LUT を構築する。
+ * opacityClasses を指定すると Kubelka–Munk モデルで解く。
+ */
+export function createDecompositionLut(
+  inkRgbs: RGB[],
+  paper: RGB,
+  size = DEFAULT_LUT_SIZE,
+  space: DecomposeSpace = "rgb",
+  opacityClasses: InkOpacityClass[] | null = null
+): DecompositionLut {
+  const n = inkRgbs.length;
+  const solve = createSolver(inkRgbs, paper, space, opacityClasses);
+  const table = new Float32Array(size * size * size * n);
+  const densities = new Float64Array(n);
+  const step = 255 / (size - 1);
+
+  for (let ri = 0; ri < size; ri++) {
+    for (let gi = 0; gi < size; gi++) {
+      for (let bi = 0; bi < size; bi++) {
+        solve(ri * step, gi * step, bi * step, densities);
+        table.set(densities, ((ri * size + gi) * size + bi) * n);
+      }
+    }
+  }
+  return { size, inkCount: n, table };
+}
+
+/**
+ * 色分解の LUT を用意する関数。key は LUT の入力（インク構成・紙色・色空間・混色モデル・分解能）を表し、
+ * 同じ key には同じ LUT を返してよい。呼び出し側はこれを差し替えて LUT をキャッシュできる。
+ */
+export type LutLoader = (key: string, build: () => DecompositionLut) => DecompositionLut;
+
+/** キャッシュせず毎回 LUT を構築する */
+const buildLut: LutLoader = (_key, build) => build();
+
+function lutKey(
+  inkRgbs: RGB[],
+  paper: RGB,
+  size: number,
+  space: DecomposeSpace,
+  opacityClasses: InkOpacityClass[] | null
+): string {
+  return [
+    size, space, opacityClasses?.join(",") ?? "multiply",
+    paper.r, paper.g, paper.b,
+    ...inkRgbs.map((c) => `${c.r},${c.g},${c.b}`),
+  ].join("|");
+}
+
+/** LUT を三線形補間で引き、結果を out に書き込む */
+function sampleLut(
+  lut: DecompositionLut,
+  r: number,
+  g: number,
+  b: number,
+  out: Float64Array
+): void {
+  const { size, inkCount: n, table } = lut;
+  const scale = (size - 1) / 255;
+
+  const fr = r * scale;
+  const fg = g * scale;
+  const fb = b * scale;
+  const r0 = Math.min(size - 2, Math.floor(fr));
+  const g0 = Math.min(size - 2, Math.floor(fg));
+  const b0 = Math.min(size - 2, Math.floor(fb));
+  const tr = fr - r0;
+  const tg = fg - g0;
+  const tb = fb - b0;
+
+  const stride = size * n;
+  const base = ((r0 * size + g0) * size + b0) * n;
+  const dR = size * stride;
+
+  for (let i = 0; i < n; i++) {
+    const p = base + i;
+    const c00 = table[p] * (1 - tb) + table[p + n] * tb;
+    const c01 = table[p + stride] * (1 - tb) + table[p + stride + n] * tb;
+    const c10 = table[p + dR] * (1 - tb) + table[p + dR + n] * tb;
+    const c11 = table[p + dR + stride] * (1 - tb) + table[p + dR + stride + n] * tb;
+    const c0 = c00 * (1 - tg) + c01 * tg;
+    const c1 = c10 * (1 - tg) + c11 * tg;
+    out[i] = c0 * (1 - tr) + c1 * tr;
+  }
+}
+
+/**
+ * 画像を各インクの濃度マップ (0–1) に色分解する。
+ * 半透明ピクセルは紙色の上に合成した色として扱う。
+ * opacityClasses を指定すると、インクを配列の順に重ねる Kubelka–Munk モデルで解く。
+ * LUT は loadLut を通して用意する。
+ */
+export function decomposeColors(
+  imageData: ImageDataLike,
+  inkRgbs: RGB[],
+  paper: RGB,
+  method: DecomposeMethod = "lut",
+  lutSize = DEFAULT_LUT_SIZE,
+  space: DecomposeSpace = "rgb",
+  opacityClasses: InkOpacityClass[] | null = null,
+  loadLut: LutLoader = buildLut
+): Float32Array[] {
+  const { data, width, height } = imageData;
+  const n = inkRgbs.length;
+  const pixelCount = width * height;
+
+  // 出力: 各色の濃度マップ
+  const maps = inkRgbs.map(() => new Float32Array(pixelCount));
+  const densities = new Float64Array(n);
+
+  const solve = method === "exact" ? createSolver(inkRgbs, paper, space, opacityClasses) : null;
+  const lut = method === "exact"
+    ? null
+    : loadLut(
+        lutKey(inkRgbs, paper, lutSize, space, opacityClasses),
+        () => createDecompositionLut(inkRgbs, paper, lutSize, space, opacityClasses)
+      );
+
+  for (let p = 0; p < pixelCount; p++) {
+    const off = p * 4;
+    const alpha = data[off + 3] / 255;
+    if (alpha < ALPHA_CUTOFF) continue;
+
+    // 紙色の上に合成: paper - (paper - pixel) × alpha
+    const r = paper.r - (paper.r - data[off]) * alpha;
+    const g = paper.g - (paper.g - data[off + 1]) * alpha;
+    const b = paper.b - (paper.b - data[off + 2]) * alpha;
+
+    if (solve) solve(r, g, b, densities);
+    else sampleLut(lut!, r, g, b, densities);
+
+    for (let i = 0; i < n; i++) {
+      maps[i][p] = densities[i];
+    }
+  }
+
+  return maps;
+}
+
+/** LUT とピクセル単位ソルバーの濃度差 */
+export interface DecompositionError {
+  /** 最大の濃度誤差 (0–1) */
+  maxError: number;
+  /** 平均の濃度誤差 (0–1) */
+  meanError: number;
+  /** 比較した濃度値の数（ピクセル数 × インク数） */
+  samples: number;
+  /**
+   * 両者の濃度で刷った色どうしの最大の色差 ΔE76。
+   * インクの組み合わせで同じ色を出せる場合は濃度が違っても刷り上がりは変わらないため、こちらで比べる
+   */
+  maxColorError: number;
+}
+
+/**
+ * LUT による色分解とピクセル単位の NNLS の結果を比較し、濃度誤差と刷り上がりの色差を報告する。
+ * 画像を省略すると RGB 空間全体を格子点の間にずらした点で走査する。
+ * LUT の高速化が出力を目に見えて変えていないかの検証用。
+ */
+export function measureDecompositionError(
+  inkRgbs: RGB[],
+  paper: RGB,
+  image?: ImageDataLike,
+  lutSize = DEFAULT_LUT_SIZE,
+  space: DecomposeSpace = "rgb",
+  opacityClasses: InkOpacityClass[] | null = null
+): DecompositionError {
+  const source = image ?? createRgbSweep(lutSize);
+  const exact = decomposeColors(source, inkRgbs, paper, "exact", DEFAULT_LUT_SIZE, space, opacityClasses);
+  const approx = decomposeColors(source, inkRgbs, paper, "lut", lutSize, space, opacityClasses);
+
+  let maxError = 0;
+  let sum = 0;
+  let samples = 0;
+  for (let i = 0; i < exact.length; i++) {
+    for (let p = 0; p < exact[i].length; p++) {
+      const err = Math.abs(exact[i][p] - approx[i][p]);
+      if (err > maxError) maxError = err;
+      sum += err;
+      samples++;
+    }
+  }
+
+  const print = createPrintModel(inkRgbs, paper, opacityClasses);
+  const n = inkRgbs.length;
+  const exactDensities = new Float64Array(n);
+  const approxDensities = new Float64Array(n);
+  const exactColor = new Float64Array(3);
+  const approxColor = new Float64Array(3);
+  let maxColorError = 0;
+  for (let p = 0; p < source.width * source.height; p++) {
+    for (let i = 0; i < n; i++) {
+      exactDensities[i] = exact[i][p];
+      approxDensities[i] = approx[i][p];
+    }
+    print(exactDensities, exactColor);
+    print(approxDensities, approxColor);
+    const a = srgbToLab(exactColor[0], exactColor[1], exactColor[2]);
+    const b = srgbToLab(approxColor[0], approxColor[1], approxColor[2]);
+    maxColorError = Math.max(maxColorError, Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]));
+  }
+  return { maxError, meanError: samples > 0 ? sum / samples : 0, samples, maxColorError };
+}
+
+/** LUT 格子点の中間を通る RGB を網羅した検証用画像 */
+function createRgbSweep(lutSize: number): ImageDataLike {
+  // 格子間隔の半分ずつずらし、補間誤差が最大になりやすい点を含める
+  const steps = (lutSize - 1) * 2 + 1;
+  const width = steps * steps;
+  const data = new Uint8ClampedArray(width * steps * 4);
+  let off = 0;
+  for (let r = 0; r < steps; r++) {
+    for (let g = 0; g < steps; g++) {
+      for (let b = 0; b < steps; b++) {
+        data[off] = Math.round((r * 255) / (steps - 1));
+        data[off + 1] = Math.round((g * 255) / (steps - 1));
+        data[off + 2] = Math.round((b * 255) / (steps - 1));
+        data[off + 3] = 255;
+        off += 4;
+      }
+    }
+  }
+  return { data, width, height: steps };
+}
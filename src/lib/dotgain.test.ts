@@ -0,0 +1,57 @@
+import { describe, expect, test } from "vitest";
+import { applyDotGain, compensateDotGain, type PaperStock } from "./dotgain";
+import { applyHalftone, type HalftoneOptions } from "./halftone";
+
+const SIZE = 96;
+const STOCKS: PaperStock[] = ["coated", "uncoated", "newsprint"];
+
+/** 版の内側（端の影響を受けない範囲）の平均被覆率 */
+function innerCoverage(map: Float32Array, margin = 16): number {
+  let sum = 0;
+  for (let y = margin; y < SIZE - margin; y++) {
+    for (let x = margin; x < SIZE - margin; x++) sum += map[y * SIZE + x];
+  }
+  return sum / (SIZE - margin * 2) ** 2;
+}
+
+/** 均一な濃度の網を刷った被覆率 */
+function printTint(density: Float32Array, options: HalftoneOptions, paper: PaperStock): number {
+  const plate = applyHalftone(density, SIZE, SIZE, options);
+  return innerCoverage(applyDotGain(plate, SIZE, SIZE, paper, options.pixelScale ?? 1));
+}
+
+describe("applyDotGain", () => {
+  test.each(STOCKS)("keeps blank paper and solids unchanged on %s", (paper) => {
+    for (const pixelScale of [0.5, 1, 3]) {
+      const blank = applyDotGain(new Float32Array(SIZE * SIZE), SIZE, SIZE, paper, pixelScale);
+      const solid = applyDotGain(new Float32Array(SIZE * SIZE).fill(1), SIZE, SIZE, paper, pixelScale);
+      expect(Math.max(...blank)).toBe(0);
+      expect(Math.min(...solid)).toBe(1);
+    }
+  });
+
+  test("leaves the plate alone without a paper stock", () => {
+    const map = new Float32Array(SIZE * SIZE).fill(0.5);
+    expect(applyDotGain(map, SIZE, SIZE, "none", 1)).toBe(map);
+  });
+
+  test("spreads the dots more on more absorbent paper", () => {
+    const options: HalftoneOptions = { dotSize: 6, angle: 45, pixelScale: 1 };
+    const tint = new Float32Array(SIZE * SIZE).fill(0.4);
+    const coated = printTint(tint, options, "coated");
+    const newsprint = printTint(tint, options, "newsprint");
+    expect(coated).toBeGreaterThan(printTint(tint, options, "none"));
+    expect(newsprint).toBeGreaterThan(coated);
+  });
+});
+
+describe("compensateDotGain", () => {
+  test.each(STOCKS)("prints a compensated tint at its target coverage on %s", (paper) => {
+    const options: HalftoneOptions = { dotSize: 6, angle: 45, pixelScale: 1 };
+    for (const target of [0.2, 0.5, 0.8]) {
+      const compensated = compensateDotGain(new Float32Array(SIZE * SIZE).fill(target), options, paper);
+      const printed = printTint(compensated, { ...options, density: 1 }, paper);
+      expect(Math.abs(printed - target)).toBeLessThan(0.05);
+    }
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * ドットゲインのシミュレーションと補正
+ *
+ * ステンシルのインクは紙の繊維ににじんで広がるため、50% の網は 65% 前後で刷り上がる。
+ * シミュレーションは版のインク被覆をガウスぼかし（にじみ）してからしきい値で切り、
+ * 網点の縁を紙ごとの量だけ太らせる。小さすぎる点はにじみで薄まって消える。
+ * 補正は同じ網点とにじみで均一な網を刷った実測の階調特性から逆カーブを作り、
+ * ハーフトーン前の濃度に掛けて刷り上がりの階調を元画像に合わせる。
+ */
+
+import { applyHalftone, halftoneReach, type HalftoneOptions } from "./halftone";
+
+/** 紙の種類。"none" はドットゲインなし */
+export type PaperStock = "none" | "coated" | "uncoated" | "newsprint";
+
+/** 紙ごとのにじみ方 */
+interface InkSpread {
+  /** にじみの広がり（ガウスの標準偏差。dotSize と同じ単位） */
+  sigma: number;
+  /** インクが乗ったとみなすぼかし後の被覆率。0.5 より小さいほど網点が太る */
+  threshold: number;
+}
+
+export const PAPER_STOCKS: Record<Exclude<PaperStock, "none">, InkSpread> = {
+  // 塗工紙: にじみがほとんどない
+  coated: { sigma: 0.3, threshold: 0.42 },
+  // 上質紙・わら半紙: ステンシル印刷で一般的なにじみ
+  uncoated: { sigma: 0.5, threshold: 0.32 },
+  // 新聞用紙: 吸い込みが強く大きく太る
+  newsprint: { sigma: 0.7, threshold: 0.28 },
+};
+
+/** これより小さいにじみ (px) はピクセル格子で表現できないため無視する */
+const MIN_SIGMA_PX = 0.25;
+
+/**
+ * にじみをこの幅 (px) 以上で計算する。σ が 1px を割ると 1px 幅のしきい値の帯が相対的に広くなり、
+ * 同じ設定でも解像度で刷り上がりの階調が変わる（白い紙にまでインクが乗る）ため、細かい格子に拡大して計算する
+ */
+const MIN_SAMPLED_SIGMA_PX = 1;
+
+/** にじみの計算で拡大する倍率の上限 */
+const MAX_SUPERSAMPLE = 4;
+
+/** 各ピクセルを複製して拡大したときに加わるぼけの分散 (元の px²)。一様な 1px 幅の箱の分散 */
+const BOX_VARIANCE = 1 / 12;
+
+/** 階調特性を測る濃度の段数 */
+const RESPONSE_STEPS = 17;
+
+/** 補正カーブの分解能 */
+const CURVE_SIZE = 256;
+
+/** 紙ごとのにじみ (px)。ドットゲインがなければ null */
+function spreadPx(paper: PaperStock, pixelScale: number): InkSpread | null {
+  if (paper === "none") return null;
+  const { sigma, threshold } = PAPER_STOCKS[paper];
+  const px = sigma * pixelScale;
+  return px < MIN_SIGMA_PX ? null : { sigma: px, threshold };
+}
+
+/** ドットゲインのシミュレーションが参照する範囲 (px)。タイル分割ののりしろに使う */
+export function dotGainReach(paper: PaperStock, pixelScale: number): number {
+  const spread = spreadPx(paper, pixelScale);
+  // 拡大して計算する場合にピクセル内の位置の分だけ余分に参照する
+  return spread ? Math.ceil(spread.sigma * 3) + 1 : 0;
+}
+
+/** 1 次元ガウスカーネル（半径 3σ、合計 1） */
+function gaussianKernel(sigma: number): Float32Array {
+  const radius = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + radius] = w;
+    sum += w;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+  return kernel;
+}
+
+/** 被覆マップを factor 倍に拡大する（各ピクセルを factor 角に複製する） */
+function upsample(map: Float32Array, width: number, height: number, factor: number): Float32Array {
+  const w = width * factor;
+  const out = new Float32Array(w * height * factor);
+  for (let y = 0; y < height * factor; y++) {
+    const src = Math.floor(y / factor) * width;
+    for (let x = 0; x < w; x++) out[y * w + x] = map[src + Math.floor(x / factor)];
+  }
+  return out;
+}
+
+/** factor 倍に拡大したマップを元の大きさに平均して戻す */
+function downsample(map: Float32Array, width: number, height: number, factor: number): Float32Array {
+  const w = width * factor;
+  const out = new Float32Array(width * height);
+  const area = factor * factor;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        const row = (y * factor + dy) * w + x * factor;
+        for (let dx = 0; dx < factor; dx++) sum += map[row + dx];
+      }
+      out[y * width + x] = sum / area;
+    }
+  }
+  return out;
+}
+
+/**
+ * 版のインク被覆にドットゲインを適用する。
+ * にじみが MIN_SAMPLED_SIGMA_PX より細かい場合は拡大した格子で計算して元の解像度に戻すため、
+ * 出力解像度が変わっても刷り上がりの階調がほぼ変わらない。ドットゲインがない場合は入力をそのまま返す。
+ */
+export function applyDotGain(
+  map: Float32Array,
+  width: number,
+  height: number,
+  paper: PaperStock,
+  pixelScale: number
+): Float32Array {
+  const spread = spreadPx(paper, pixelScale);
+  if (!spread) return map;
+  const factor = Math.min(MAX_SUPERSAMPLE, Math.ceil(MIN_SAMPLED_SIGMA_PX / spread.sigma));
+  if (factor <= 1) return spreadInk(map, width, height, spread);
+  // 拡大で加わるぼけの分だけにじみを差し引く（細かすぎるにじみは半分までに留める）
+  const sigma = Math.sqrt(Math.max(spread.sigma ** 2 - BOX_VARIANCE, (spread.sigma / 2) ** 2));
+  const printed = spreadInk(
+    upsample(map, width, height, factor),
+    width * factor,
+    height * factor,
+    { sigma: sigma * factor, threshold: spread.threshold }
+  );
+  return downsample(printed, width, height, factor);
+}
+
+/**
+ * 縦横に分けてガウスぼかしを掛け（バッファの端は端の値を繰り返す）、
+ * しきい値の前後 1px 幅でなだらかに切ってアンチエイリアスを保つ。
+ * 帯はしきい値を中心に [0, 1] に収め、インクのない紙は白いまま、ベタはベタのまま残す。
+ */
+function spreadInk(map: Float32Array, width: number, height: number, spread: InkSpread): Float32Array {
+  const kernel = gaussianKernel(spread.sigma);
+  const radius = (kernel.length - 1) / 2;
+
+  const temp = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.max(0, Math.min(width - 1, x + k));
+        sum += map[row + sx] * kernel[k + radius];
+      }
+      temp[row + x] = sum;
+    }
+  }
+
+  // 直線の縁でのぼかし後の傾き (1/px) から、1px 幅に当たるしきい値の幅を求める
+  const halfWidth = Math.min(
+    0.5 / (spread.sigma * Math.sqrt(2 * Math.PI)),
+    spread.threshold,
+    1 - spread.threshold
+  );
+  const lo = spread.threshold - halfWidth;
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.max(0, Math.min(height - 1, y + k));
+        sum += temp[sy * width + x] * kernel[k + radius];
+      }
+      out[y * width + x] = Math.max(0, Math.min(1, (sum - lo) / (2 * halfWidth)));
+    }
+  }
+  return out;
+}
+
+/**
+ * 均一な濃度の網を刷ったときの実際の被覆率を段階ごとに測る。
+ * 測定用の小さなパッチに同じ設定でハーフトーンとドットゲインを掛け、
+ * 端の影響を受けない内側の平均を取る。結果は濃度に対して単調になるよう補正する。
+ */
+function measureToneResponse(
+  options: HalftoneOptions,
+  paper: PaperStock,
+  pixelScale: number
+): Float32Array {
+  const halftoneOptions: HalftoneOptions = { ...options, density: 1, pixelScale, region: undefined };
+  const cell = Math.max(1, (options.dotSize + 2) * pixelScale);
+  const reach = Math.min(64, halftoneReach(halftoneOptions));
+  const margin = Math.ceil(reach + dotGainReach(paper, pixelScale)) + 2;
+  const inner = Math.min(192, Math.max(48, Math.ceil(cell * 6)));
+  const size = inner + margin * 2;
+
+  const response = new Float32Array(RESPONSE_STEPS);
+  const patch = new Float32Array(size * size);
+  for (let s = 0; s < RESPONSE_STEPS; s++) {
+    const d = s / (RESPONSE_STEPS - 1);
+    patch.fill(d);
+    const printed = applyDotGain(
+      applyHalftone(patch, size, size, halftoneOptions),
+      size,
+      size,
+      paper,
+      pixelScale
+    );
+    let sum = 0;
+    for (let y = margin; y < margin + inner; y++) {
+      for (let x = margin; x < margin + inner; x++) sum += printed[y * size + x];
+    }
+    response[s] = Math.max(s > 0 ? response[s - 1] : 0, sum / (inner * inner));
+  }
+  return response;
+}
+
+/**
+ * 階調特性の逆カーブを作る。curve[i] は刷り上がりを i / (CURVE_SIZE - 1) にするための濃度。
+ * 紙白や最大濃度を超える目標は、出せる範囲の端に丸める。
+ */
+function inverseCurve(response: Float32Array): Float32Array {
+  const curve = new Float32Array(CURVE_SIZE);
+  const last = RESPONSE_STEPS - 1;
+  let s = 0;
+  for (let i = 0; i < CURVE_SIZE; i++) {
+    const target = i / (CURVE_SIZE - 1);
+    while (s < last - 1 && response[s + 1] < target) s++;
+    const r0 = response[s];
+    const r1 = response[s + 1];
+    const t = r1 > r0 ? Math.max(0, Math.min(1, (target - r0) / (r1 - r0))) : target > r0 ? 1 : 0;
+    curve[i] = (s + t) / last;
+  }
+  return curve;
+}
+
+/** 直前に作った補正カーブ（設定ごと）。パターンタイルは同一性で区別する */
+const curveCache = new Map<string, Float32Array>();
+const patternIds = new WeakMap<object, number>();
+let nextPatternId = 1;
+
+/** キャッシュする補正カーブの上限 */
+const MAX_CACHED_CURVES = 32;
+
+/** 網点の設定と紙に対するドットゲイン補正カーブを返す（測定結果はキャッシュする） */
+function getCompensationCurve(
+  options: HalftoneOptions,
+  paper: PaperStock,
+  pixelScale: number
+): Float32Array {
+  const { pattern } = options;
+  let patternId = 0;
+  if (pattern) {
+    patternId = patternIds.get(pattern) ?? nextPatternId++;
+    patternIds.set(pattern, patternId);
+  }
+  const key = JSON.stringify([
+    { ...options, density: undefined, pattern: undefined, region: undefined },
+    patternId,
+    paper,
+    pixelScale,
+  ]);
+  let curve = curveCache.get(key);
+  if (!curve) {
+    curve = inverseCurve(measureToneResponse(options, paper, pixelScale));
+    if (curveCache.size >= MAX_CACHED_CURVES) curveCache.clear();
+    curveCache.set(key, curve);
+  }
+  return curve;
+}
+
+/**
+ * ハーフトーン前の濃度マップにドットゲインの逆補正を掛ける。
+ * options.density の濃度スケールを先に適用した値を補正するため、
+ * 結果は density = 1 としてハーフトーンに渡す。
+ */
+export function compensateDotGain(
+  densityMap: Float32Array,
+  options: HalftoneOptions,
+  paper: PaperStock
+): Float32Array {
+  const scale = options.density ?? 1;
+  const curve = getCompensationCurve(options, paper, options.pixelScale ?? 1);
+  const out = new Float32Array(densityMap.length);
+  for (let i = 0; i < densityMap.length; i++) {
+    const d = Math.max(0, Math.min(1, densityMap[i] * scale));
+    const f = d * (CURVE_SIZE - 1);
+    const i0 = Math.min(CURVE_SIZE - 2, Math.floor(f));
+    out[i] = curve[i0] + (curve[i0 + 1] - curve[i0]) * (f - i0);
+  }
+  return out;
+}
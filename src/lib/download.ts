@@ -0,0 +1,46 @@
+/**
+ * ダウンロード用のブラウザヘルパー
+ */
+
+/** RGBA ピクセル配列を新しい canvas に描画する */
+export function pixelsToCanvas(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number
+): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  const output = ctx.createImageData(width, height);
+  output.data.set(pixels);
+  ctx.putImageData(output, 0, 0);
+  return canvas;
+}
+
+/** canvas を PNG の Blob に変換する */
+export function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error("Failed to encode PNG"));
+    }, "image/png");
+  });
+}
+
+/** canvas を PNG のバイト列に変換する */
+export async function canvasToPng(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  const blob = await canvasToPngBlob(canvas);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/** Blob をファイルとしてダウンロードさせる */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // クリック直後に revoke するとダウンロードが始まらないブラウザがあるため遅延させる
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from "vitest";
+import { applyHalftone, type DotShape, type HalftoneOptions } from "./halftone";
+
+const W = 48;
+const H = 48;
+
+function flat(d: number): Float32Array {
+  return new Float32Array(W * H).fill(d);
+}
+
+describe("hybrid halftone", () => {
+  test.each<DotShape>(["round", "square", "ellipse"])("draws the same %s dots as AM in the mid-tones", (dotShape) => {
+    const options: HalftoneOptions = { dotSize: 4, angle: 15, dotShape, minDotSize: 1 };
+    const map = flat(0.5);
+    const am = applyHalftone(map, W, H, { ...options, mode: "am" });
+    const hybrid = applyHalftone(map, W, H, { ...options, mode: "hybrid" });
+    expect(hybrid).toEqual(am);
+  });
+
+  test("keeps shadow holes open next to mid-tone cells", () => {
+    // セル 6px、最小ドットが大きいためシャドウの穴が開く。x = 24 の列の角は濃度 1 を参照し、
+    // その右のセルは中間調になる。線の網点はセルの端まで伸びる
+    const options: HalftoneOptions = { dotSize: 4, angle: 0, dotShape: "line", minDotSize: 4, mode: "hybrid" };
+    const cell = 6;
+    const edge = 25;
+    const mixed = flat(1);
+    for (let y = 0; y < H; y++) mixed.fill(0.8, y * W + edge, (y + 1) * W);
+    const solid = applyHalftone(flat(1), W, H, options);
+    const result = applyHalftone(mixed, W, H, options);
+
+    let holes = 0;
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W; x++) {
+        const corner = Math.hypot(x - 4 * cell, y - Math.round(y / cell) * cell);
+        if (corner > cell / 2 || solid[y * W + x] > 0) continue;
+        holes++;
+        expect(result[y * W + x]).toBe(0);
+      }
+    }
+    expect(holes).toBeGreaterThan(0);
+  });
+});
@@ -3,9 +3,62 @@
  *
  * AM モード: ドットサイズが濃度に応じて変化（振幅変調）
  * FM モード: 固定サイズのドットが密度に応じて配置（周波数変調/確率的スクリーニング）
+ * 誤差拡散モード: 量子化誤差を周囲に分配して 2 値化（Floyd–Steinberg など）
+ * 組織的ディザモード: 回転したしきい値行列のタイルと比較して 2 値化（Bayer など）
+ * パターンモード: アップロードしたグレースケール画像のタイルをしきい値にする
+ * ハイブリッドモード: 中間調は AM、最小ドットより小さくなるハイライトとシャドウは FM
+ * ベタモード: 網点を使わず、しきい値以上の濃度をベタで塗る
+ * 階調モード: 濃度を数段階のチント（網％）にポスタリゼーションし、均一な細かい網で埋める
  */
 
-export type HalftoneMode = "am" | "fm";
+import { getBlueNoiseTexture, BLUE_NOISE_SIZE } from "./bluenoise";
+import { hash2d } from "./random";
+
+export type HalftoneMode =
+  | "am"
+  | "fm"
+  | "diffusion"
+  | "ordered"
+  | "pattern"
+  | "hybrid"
+  | "solid"
+  | "levels";
+
+/** パターンモードのしきい値タイル（グレースケール） */
+export interface HalftonePattern {
+  width: number;
+  height: number;
+  /** 明るさ (0 = 黒, 1 = 白)。行優先で width × height 個。暗い部分から先にインクが乗る */
+  values: Float32Array;
+}
+
+/**
+ * AM ドットの形状。
+ * "round" = 真円、"ellipse" = 楕円（チェーンドット）、"square" = ユークリッド（50% で市松模様）、
+ * "diamond" = ひし形、"line" = 線スクリーン、"cross" = 十字
+ */
+export type DotShape = "round" | "ellipse" | "square" | "diamond" | "line" | "cross";
+
+/** FM スクリーンのしきい値の出どころ。"white" = セルごとの独立な乱数、"blue" = ブルーノイズテクスチャ */
+export type FMNoise = "white" | "blue";
+
+/** 誤差拡散のカーネル */
+export type DiffusionKernel = "floyd-steinberg" | "atkinson" | "jarvis" | "stucki";
+
+/**
+ * 組織的ディザのしきい値行列。
+ * "bayerN" = N×N の Bayer 行列（分散型）、"clusterN" = N×N の集中型ドット行列、
+ * "custom" = HalftoneOptions.thresholdMatrix で与えた行列
+ */
+export type OrderedMatrix =
+  | "bayer2"
+  | "bayer4"
+  | "bayer8"
+  | "bayer16"
+  | "cluster4"
+  | "cluster6"
+  | "cluster8"
+  | "custom";
 
 export interface HalftoneOptions {
   /** ドットの基本サイズ (px) */
@@ -14,12 +67,413 @@ export interface HalftoneOptions {
   angle: number;
   /** 濃度スケール (0.5–2.0)。1 がデフォルト */
   density?: number;
-  /** ハーフトーンモード。"am" = ドットサイズ変化、"fm" = ドット密度変化 */
+  /** ハーフトーンモード。"am" = ドットサイズ変化、"fm" = ドット密度変化、"diffusion" = 誤差拡散 */
   mode?: HalftoneMode;
+  /** AM モードのドット形状。デフォルト: "round" */
+  dotShape?: DotShape;
+  /**
+   * ハイブリッドモードの最小ドット（白抜きの穴）の直径 (dotSize と同じ単位)。
+   * これより小さくなる階調では最小ドットの確率的な配置に切り替える。デフォルト: 1
+   */
+  minDotSize?: number;
+  /** ベタモードでインクを乗せる濃度のしきい値 (0–1)。デフォルト: 0.5 */
+  solidThreshold?: number;
+  /** 階調モードのチントの段数（紙色を除く）。濃度を k / tintLevels (k = 0…tintLevels) に丸める。デフォルト: 3 */
+  tintLevels?: number;
+  /** 誤差拡散のカーネル。デフォルト: "floyd-steinberg" */
+  diffusionKernel?: DiffusionKernel;
+  /** 誤差拡散で行ごとに走査方向を反転する（サーペンタイン走査）。デフォルト: true */
+  serpentine?: boolean;
+  /** 組織的ディザのしきい値行列。デフォルト: "bayer8" */
+  orderedMatrix?: OrderedMatrix;
+  /** orderedMatrix が "custom" のときのしきい値行列。値の大小順（順位）だけを使う */
+  thresholdMatrix?: number[][];
+  /** パターンモードのしきい値タイル。省略時は丸い集中型ドットのタイルを使う */
+  pattern?: HalftonePattern;
+  /** FM モードのしきい値。デフォルト: "white" */
+  fmNoise?: FMNoise;
+  /** ブルーノイズテクスチャを参照する位置のずらし量（セル単位）。版ごとに変えてドットの重なりを防ぐ */
+  textureOffset?: { x: number; y: number };
+  /** 乱数シード。FM モードのドット配置を決定する。デフォルト: 0 */
+  seed?: number;
+  /** dotSize 1 単位あたりのピクセル数。高解像度出力で網点を同じ見た目に保つ。デフォルト: 1 */
+  pixelScale?: number;
+  /** 濃度マップが大きな画像の一部（タイル）の場合の位置。省略時は画像全体 */
+  region?: ImageRegion;
 }
 
 /**
- * AM ハーフトーン: ドット中心の濃度でドットサイズを決定し、常に真円を描画する。
+ * タイル処理用の位置情報。
+ * 処理対象のバッファが、全体画像の (x, y) を左上とする一部であることを表す。
+ * スクリーンの格子や乱数は全体画像の座標で計算するため、タイルの継ぎ目は出ない。
+ */
+export interface ImageRegion {
+  /** 全体画像におけるバッファ左上の座標 (px) */
+  x: number;
+  y: number;
+  /** 全体画像のサイズ (px) */
+  fullWidth: number;
+  fullHeight: number;
+}
+
+/** 領域指定を解決する（省略時はバッファ自身が全体画像） */
+export function resolveRegion(width: number, height: number, region?: ImageRegion): ImageRegion {
+  return region ?? { x: 0, y: 0, fullWidth: width, fullHeight: height };
+}
+
+/**
+ * 全体画像の座標で濃度を返すサンプラーを生成する。
+ * 全体画像の範囲外、またはタイルのバッファ外は 0 を返す。
+ */
+function createDensitySampler(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  region: ImageRegion
+): (imgX: number, imgY: number) => number {
+  const { x: ox, y: oy, fullWidth, fullHeight } = region;
+  return (imgX, imgY) => {
+    if (imgX < 0 || imgX >= fullWidth || imgY < 0 || imgY >= fullHeight) return 0;
+    const lx = imgX - ox;
+    const ly = imgY - oy;
+    if (lx < 0 || lx >= width || ly < 0 || ly >= height) return 0;
+    return densityMap[ly * width + lx];
+  };
+}
+
+/**
+ * 各ピクセルの値を決めるのに参照する範囲 (px)。
+ * タイル処理ではこの幅以上の重なり（のりしろ）を確保すれば継ぎ目なく一致する。
+ * 近傍を参照しないと成り立たないモードは Infinity を返す。
+ */
+export function halftoneReach(options: HalftoneOptions): number {
+  const pixelScale = options.pixelScale ?? 1;
+  // 誤差拡散は画像全体を順に走査するため、部分的には計算できない
+  if (options.mode === "diffusion") return Infinity;
+  // 組織的ディザ・パターン・階調はピクセル自身の濃度だけを参照する
+  if (options.mode === "ordered" || options.mode === "pattern" || options.mode === "levels") return 1;
+  // ベタは縁のアンチエイリアスに上下左右の濃度を参照する
+  if (options.mode === "solid") return 2;
+  if (options.mode === "fm") {
+    const cellSize = options.dotSize * pixelScale;
+    const edge = Math.max(0.5, 0.5 / cellSize);
+    const searchRange = Math.ceil((cellSize * 0.5 + edge) / cellSize);
+    return (searchRange + 0.5) * Math.SQRT2 * cellSize + 1;
+  }
+  // AM: 隣接 ±1 セルのドット中心を参照する
+  return 1.5 * Math.SQRT2 * amCellSize(options) + 1;
+}
+
+/** ベクター書き出し用の AM ドット（画像座標） */
+export interface HalftoneDot {
+  /** ドット中心 (px) */
+  x: number;
+  y: number;
+  /** ドット半径 (px) */
+  radius: number;
+}
+
+/** AM スクリーンのセルサイズ (px)。ドット間隔に余白 2 単位を足す */
+function amCellSize(options: HalftoneOptions): number {
+  return (options.dotSize + 2) * (options.pixelScale ?? 1);
+}
+
+/** AM ドットが覆うセル面積の割合の上限。濃度 1 で真円ドットが隣のドットと接する (π/4) */
+const AM_MAX_COVERAGE = Math.PI / 4;
+
+/**
+ * 真円以外のドット形状のスポット関数。
+ * セル中心を原点とした座標 (x, y ∈ [-1, 1]) を受け取り、小さい値ほど先にインクが乗る。
+ */
+const SPOT_FUNCTIONS: Record<Exclude<DotShape, "round">, (x: number, y: number) => number> = {
+  // スクリーン方向に長い楕円。中間調で隣のドットとつながり鎖状になる
+  ellipse: (x, y) => Math.sqrt(x * x + (y / 0.6) ** 2),
+  // 低濃度では丸、50% でひし形の角が接して市松模様、高濃度では丸い穴になる
+  square: (x, y) => -(Math.cos(Math.PI * x) + Math.cos(Math.PI * y)),
+  diamond: (x, y) => Math.abs(x) + Math.abs(y),
+  line: (_x, y) => Math.abs(y),
+  cross: (x, y) => {
+    const ax = Math.abs(x);
+    const ay = Math.abs(y);
+    return Math.min(ax, ay) + 0.25 * Math.max(ax, ay);
+  },
+};
+
+/** スポット関数の値の分布を求める標本の一辺 */
+const SPOT_SAMPLES = 128;
+
+/** 形状ごとのスポット関数値の昇順リスト（被覆率 → しきい値の変換用） */
+const spotLevels = new Map<DotShape, Float32Array>();
+
+function getSpotLevels(shape: Exclude<DotShape, "round">): Float32Array {
+  let levels = spotLevels.get(shape);
+  if (!levels) {
+    const spot = SPOT_FUNCTIONS[shape];
+    levels = new Float32Array(SPOT_SAMPLES * SPOT_SAMPLES);
+    for (let j = 0; j < SPOT_SAMPLES; j++) {
+      for (let i = 0; i < SPOT_SAMPLES; i++) {
+        levels[j * SPOT_SAMPLES + i] = spot(
+          ((i + 0.5) / SPOT_SAMPLES) * 2 - 1,
+          ((j + 0.5) / SPOT_SAMPLES) * 2 - 1
+        );
+      }
+    }
+    levels.sort();
+    spotLevels.set(shape, levels);
+  }
+  return levels;
+}
+
+/** セル面積に対する被覆率が coverage になるスポット関数のしきい値 */
+function spotThreshold(levels: Float32Array, coverage: number): number {
+  const pos = coverage * levels.length - 0.5;
+  if (pos <= 0) return levels[0];
+  if (pos >= levels.length - 1) return levels[levels.length - 1];
+  const i = Math.floor(pos);
+  return levels[i] + (levels[i + 1] - levels[i]) * (pos - i);
+}
+
+/**
+ * スポット関数で描く網点の 1 画素の不透明度。
+ * セル内の位置 (u, v) とスポット関数の勾配 (1px あたり) から縁までの距離を見積もり、アンチエイリアスを付ける。
+ * pixel は 1px をセル座標に換算した長さ。
+ */
+function spotOpacity(
+  spot: (x: number, y: number) => number,
+  u: number,
+  v: number,
+  threshold: number,
+  pixel: number
+): number {
+  const h = pixel * 0.5;
+  const s = spot(u, v);
+  const gu = (spot(u + h, v) - spot(u - h, v)) / (2 * h);
+  const gv = (spot(u, v + h) - spot(u, v - h)) / (2 * h);
+  const grad = Math.sqrt(gu * gu + gv * gv) * pixel;
+  const opacity = grad > 1e-6
+    ? 0.5 + (threshold - s) / grad
+    : threshold > s ? 1 : 0;
+  return Math.max(0, Math.min(1, opacity));
+}
+
+/**
+ * 真円以外の AM ハーフトーン。
+ * セル内の位置をスポット関数で順位付けし、被覆率が真円ドットと同じ (π/4 × 濃度) になる
+ * しきい値で塗る。縁はスポット関数の勾配から 1px 幅のアンチエイリアスを付ける。
+ */
+function applySpotHalftone(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  options: HalftoneOptions & { dotShape: Exclude<DotShape, "round"> }
+): Float32Array {
+  const scale = options.density ?? 1;
+  const spot = SPOT_FUNCTIONS[options.dotShape];
+  const levels = getSpotLevels(options.dotShape);
+  const result = new Float32Array(width * height);
+
+  const cellSize = amCellSize(options);
+  const rad = (options.angle * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  const region = resolveRegion(width, height, options.region);
+  const sample = createDensitySampler(densityMap, width, height, region);
+
+  // 1px をセル座標 (x, y ∈ [-1, 1]) に換算した長さ
+  const pixel = 2 / cellSize;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // 回転座標系に変換（全体画像の座標で格子を決める）
+      const px = x + region.x;
+      const py = y + region.y;
+      const rx = px * cos + py * sin;
+      const ry = -px * sin + py * cos;
+
+      const gx = Math.floor(rx / cellSize);
+      const gy = Math.floor(ry / cellSize);
+
+      // セル中心の濃度でしきい値を決める
+      const dotRx = (gx + 0.5) * cellSize;
+      const dotRy = (gy + 0.5) * cellSize;
+      const imgX = Math.round(dotRx * cos - dotRy * sin);
+      const imgY = Math.round(dotRx * sin + dotRy * cos);
+      const d = Math.min(sample(imgX, imgY) * scale, 1);
+      if (d < 0.001) continue;
+      const threshold = spotThreshold(levels, d * AM_MAX_COVERAGE);
+
+      // セル内の位置 (-1〜1)
+      const u = ((rx - dotRx) / cellSize) * 2;
+      const v = ((ry - dotRy) / cellSize) * 2;
+      result[y * width + x] = spotOpacity(spot, u, v, threshold, pixel);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * AM の真円ドット（濃度 d、半径 radius px）が、中心から dist px の画素に与える不透明度。
+ * 縁には 1px 幅のアンチエイリアスを付ける。
+ */
+function roundDotOpacity(dist: number, radius: number, d: number): number {
+  // アンチエイリアスの縁幅 (ピクセル単位)
+  const edge = 0.5;
+  if (dist > radius + edge) return 0;
+
+  // アンチエイリアスを含む不透明度計算
+  let opacity: number;
+  if (dist < radius - edge) {
+    opacity = 1;
+  } else {
+    opacity = 1 - (dist - (radius - edge)) / (2 * edge);
+  }
+
+  // ピーク正規化: radius < edge のとき中心でも opacity < 1 になるのを補正
+  if (radius < edge) {
+    const peak = 0.5 + radius / (2 * edge);
+    opacity = Math.min(1, opacity / peak);
+  }
+
+  // サブピクセル補正: ドット半径が 1px 未満の場合、
+  // 物理的にこれ以上小さくできないため透明度で拡張
+  if (radius < 1.0) {
+    const blend = 1 - radius;
+    opacity *= 1 - blend * (1 - Math.sqrt(d));
+  }
+
+  return opacity;
+}
+
+/** 距離と半径から 1px 幅のアンチエイリアス付き不透明度を求める */
+function edgeOpacity(dist: number, radius: number): number {
+  return Math.max(0, Math.min(1, 0.5 + radius - dist));
+}
+
+/**
+ * ハイブリッド AM/FM ハーフトーン。
+ * 中間調は AM と同じ網点（dotShape の形状、被覆率 π/4 × 濃度）で描き、極端な階調だけを差し替える。
+ * 網点が最小ドットより小さくなるハイライトでは、最小ドットを濃度に比例した確率でセルに置き、
+ * 網点の隙間が最小ドットより小さくなるシャドウでは、セルを塗りつぶして最小サイズの穴を同様に確率的に
+ * セルの角へ開ける。穴は角を共有する 4 セルのどの描き方の上からでも抜くため、隣のセルに欠けさせられない。
+ */
+function applyHybridHalftone(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  options: HalftoneOptions
+): Float32Array {
+  const { dotShape = "round" } = options;
+  // ドットと穴を選ぶ乱数のシード（32bit 符号なし整数）
+  const seed = (options.seed ?? 0) >>> 0;
+  const scale = options.density ?? 1;
+  const pixelScale = options.pixelScale ?? 1;
+  const spot = dotShape === "round" ? null : SPOT_FUNCTIONS[dotShape];
+  const levels = dotShape === "round" ? null : getSpotLevels(dotShape);
+  const result = new Float32Array(width * height);
+
+  const cellSize = amCellSize(options);
+  const rad = (options.angle * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  const region = resolveRegion(width, height, options.region);
+  const sample = createDensitySampler(densityMap, width, height, region);
+  /** 回転座標系の点の濃度（0–1 にクランプ） */
+  const densityAt = (rx: number, ry: number) =>
+    Math.min(sample(Math.round(rx * cos - ry * sin), Math.round(rx * sin + ry * cos)) * scale, 1);
+
+  // 最小ドットの半径 (px) とセル面積に対する割合（ハイライト側とシャドウ側が重ならないよう制限）
+  const minArea = Math.min(
+    0.25,
+    (Math.PI * ((options.minDotSize ?? 1) * pixelScale * 0.5) ** 2) / (cellSize * cellSize)
+  );
+  const minRadius = Math.sqrt(minArea / Math.PI) * cellSize;
+  // 網点の隙間は 1 - π/4 より狭くならないため、最小ドットがそれより大きいときだけシャドウの穴を開ける
+  const hasShadow = 1 - AM_MAX_COVERAGE < minArea;
+  // 穴の有無はドットとは別の乱数で決める
+  const holeSeed = (seed ^ 0x68a1) >>> 0;
+  // 真円は AM と同じく隣のセルのドットの縁も参照する。スポット関数はセル内で完結する
+  const range = spot ? 0 : 1;
+
+  const pixel = 2 / cellSize;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // 回転座標系に変換（全体画像の座標で格子を決める）
+      const px = x + region.x;
+      const py = y + region.y;
+      const rx = px * cos + py * sin;
+      const ry = -px * sin + py * cos;
+
+      const gx = Math.floor(rx / cellSize);
+      const gy = Math.floor(ry / cellSize);
+
+      let opacity = 0;
+      for (let dy = -range; dy <= range; dy++) {
+        for (let dx = -range; dx <= range; dx++) {
+          const cx = gx + dx;
+          const cy = gy + dy;
+          const dotRx = (cx + 0.5) * cellSize;
+          const dotRy = (cy + 0.5) * cellSize;
+          const d = densityAt(dotRx, dotRy);
+          if (d < 0.001) continue;
+          // AM と同じ被覆率
+          const coverage = d * AM_MAX_COVERAGE;
+
+          let cellOpacity: number;
+          if (coverage < minArea) {
+            // ハイライト: 最小ドットを確率的に置く
+            if (hash2d(cx, cy, seed) >= coverage / minArea) continue;
+            cellOpacity = edgeOpacity(Math.hypot(rx - dotRx, ry - dotRy), minRadius);
+          } else if (hasShadow && coverage > 1 - minArea) {
+            // シャドウ: 自分のセルを塗りつぶす（穴は下で角ごとに開ける）
+            if (dx !== 0 || dy !== 0) continue;
+            cellOpacity = 1;
+          } else if (spot && levels) {
+            // 中間調: AM と同じスポット関数の網点
+            const u = ((rx - dotRx) / cellSize) * 2;
+            const v = ((ry - dotRy) / cellSize) * 2;
+            cellOpacity = spotOpacity(spot, u, v, spotThreshold(levels, coverage), pixel);
+          } else {
+            // 中間調: AM と同じ真円の網点
+            cellOpacity = roundDotOpacity(
+              Math.hypot(rx - dotRx, ry - dotRy),
+              Math.sqrt(d) * 0.5 * cellSize,
+              d
+            );
+          }
+          opacity = Math.max(opacity, cellOpacity);
+        }
+      }
+      if (opacity === 0) continue;
+
+      if (hasShadow) {
+        // 最寄りのセルの角の穴。角の濃度で有無を決め、どのセルの描き方の上からでも抜く
+        const kx = Math.round(rx / cellSize);
+        const ky = Math.round(ry / cellSize);
+        const cornerRx = kx * cellSize;
+        const cornerRy = ky * cellSize;
+        const gap = 1 - densityAt(cornerRx, cornerRy) * AM_MAX_COVERAGE;
+        if (gap < minArea && hash2d(kx, ky, holeSeed) < gap / minArea) {
+          opacity = Math.min(
+            opacity,
+            1 - edgeOpacity(Math.hypot(rx - cornerRx, ry - cornerRy), minRadius)
+          );
+        }
+      }
+
+      result[y * width + x] = opacity;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * AM ハーフトーン: ドット中心の濃度でドットサイズを決定し、真円を描画する。
+ * 真円以外の形状は applySpotHalftone で描画する。
  * 各ピクセルについて周囲のグリッドセルを探索し、
  * セル中心の濃度からドット半径を算出してカバレッジを計算する。
  */
@@ -29,25 +483,30 @@ function applyAMHalftone(
   height: number,
   options: HalftoneOptions
 ): Float32Array {
-  const { angle } = options;
+  const { angle, dotShape = "round" } = options;
+  if (dotShape !== "round") {
+    return applySpotHalftone(densityMap, width, height, { ...options, dotShape });
+  }
   const scale = options.density ?? 1;
   const result = new Float32Array(width * height);
 
-  const cellSize = options.dotSize + 2;
+  const cellSize = amCellSize(options);
   const rad = (angle * Math.PI) / 180;
   const cos = Math.cos(rad);
   const sin = Math.sin(rad);
 
-  // アンチエイリアスの縁幅 (ピクセル単位)
-  const edge = 0.5;
+  const region = resolveRegion(width, height, options.region);
+  const sample = createDensitySampler(densityMap, width, height, region);
 
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
       const idx = y * width + x;
 
-      // 回転座標系に変換
-      const rx = x * cos + y * sin;
-      const ry = -x * sin + y * cos;
+      // 回転座標系に変換（全体画像の座標で格子を決める）
+      const px = x + region.x;
+      const py = y + region.y;
+      const rx = px * cos + py * sin;
+      const ry = -px * sin + py * cos;
 
       // 回転グリッド上のセル座標
       const gx = Math.floor(rx / cellSize);
@@ -69,13 +528,7 @@ function applyAMHalftone(
           const imgX = Math.round(dotRx * cos - dotRy * sin);
           const imgY = Math.round(dotRx * sin + dotRy * cos);
 
-          let d: number;
-          if (imgX >= 0 && imgX < width && imgY >= 0 && imgY < height) {
-            d = densityMap[imgY * width + imgX];
-          } else {
-            d = 0;
-          }
-          d = Math.min(d * scale, 1);
+          const d = Math.min(sample(imgX, imgY) * scale, 1);
           if (d < 0.001) continue;
 
           // ドット中心の濃度からドット半径を決定（ピクセル単位）
@@ -86,30 +539,7 @@ function applyAMHalftone(
           const distY = ry - dotRy;
           const dist = Math.sqrt(distX * distX + distY * distY);
 
-          if (dist > radius + edge) continue;
-
-          // アンチエイリアスを含む不透明度計算
-          let opacity: number;
-          if (dist < radius - edge) {
-            opacity = 1;
-          } else {
-            opacity = 1 - (dist - (radius - edge)) / (2 * edge);
-          }
-
-          // ピーク正規化: radius < edge のとき中心でも opacity < 1 になるのを補正
-          if (radius < edge) {
-            const peak = 0.5 + radius / (2 * edge);
-            opacity = Math.min(1, opacity / peak);
-          }
-
-          // サブピクセル補正: ドット半径が 1px 未満の場合、
-          // 物理的にこれ以上小さくできないため透明度で拡張
-          if (radius < 1.0) {
-            const blend = 1 - radius;
-            opacity *= 1 - blend * (1 - Math.sqrt(d));
-          }
-
-          maxOpacity = Math.max(maxOpacity, opacity);
+          maxOpacity = Math.max(maxOpacity, roundDotOpacity(dist, radius, d));
         }
       }
 
@@ -120,18 +550,61 @@ function applyAMHalftone(
   return result;
 }
 
-/** セル座標の決定論的ハッシュ → [0, 1) の閾値 */
-function cellHash(x: number, y: number): number {
-  let h = (x * 374761393 + y * 668265263) | 0;
-  h = Math.imul(h ^ (h >>> 13), 1274126177);
-  h = h ^ (h >>> 16);
-  return (h >>> 0) / 4294967296;
+/**
+ * AM ハーフトーンのドットを列挙する（SVG 書き出し用）。
+ * applyAMHalftone と同じ回転グリッド・濃度サンプリングで
+ * 各セルのドット中心と半径を求める。ラスタ化しないためアンチエイリアスや
+ * サブピクセル補正は含まない。ドット形状は常に真円として扱う。
+ */
+export function listAMDots(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  options: HalftoneOptions
+): HalftoneDot[] {
+  const scale = options.density ?? 1;
+  const cellSize = amCellSize(options);
+  const rad = (options.angle * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  // 画像の四隅を回転座標系に変換し、覆うセル範囲を求める
+  let minRx = Infinity, maxRx = -Infinity, minRy = Infinity, maxRy = -Infinity;
+  for (const [x, y] of [[0, 0], [width, 0], [0, height], [width, height]]) {
+    const rx = x * cos + y * sin;
+    const ry = -x * sin + y * cos;
+    minRx = Math.min(minRx, rx);
+    maxRx = Math.max(maxRx, rx);
+    minRy = Math.min(minRy, ry);
+    maxRy = Math.max(maxRy, ry);
+  }
+
+  const dots: HalftoneDot[] = [];
+  for (let cy = Math.floor(minRy / cellSize) - 1; cy <= Math.ceil(maxRy / cellSize); cy++) {
+    for (let cx = Math.floor(minRx / cellSize) - 1; cx <= Math.ceil(maxRx / cellSize); cx++) {
+      const dotRx = (cx + 0.5) * cellSize;
+      const dotRy = (cy + 0.5) * cellSize;
+      const x = dotRx * cos - dotRy * sin;
+      const y = dotRx * sin + dotRy * cos;
+
+      const imgX = Math.round(x);
+      const imgY = Math.round(y);
+      if (imgX < 0 || imgX >= width || imgY < 0 || imgY >= height) continue;
+
+      const d = Math.min(densityMap[imgY * width + imgX] * scale, 1);
+      if (d < 0.001) continue;
+
+      dots.push({ x, y, radius: Math.sqrt(d) * 0.5 * cellSize });
+    }
+  }
+  return dots;
 }
 
 /**
  * FM (周波数変調) ハーフトーン。
  * 固定サイズのドットを濃度に応じた確率で配置する。
  * 暗い部分はドットが密集し、ほぼベタ塗りになる。
+ * しきい値はセルごとのハッシュ（ホワイトノイズ）か、ブルーノイズテクスチャから取る。
  */
 function applyFMHalftone(
   densityMap: Float32Array,
@@ -139,19 +612,30 @@ function applyFMHalftone(
   height: number,
   options: HalftoneOptions
 ): Float32Array {
-  const { dotSize, angle } = options;
+  const { dotSize, angle, fmNoise = "white", textureOffset = { x: 0, y: 0 } } = options;
+  // ドットを選ぶ乱数のシード（32bit 符号なし整数）
+  const seed = (options.seed ?? 0) >>> 0;
   const scale = options.density ?? 1;
   const result = new Float32Array(width * height);
 
+  // セル座標 → しきい値 (0–1)
+  const blueNoise = fmNoise === "blue" ? getBlueNoiseTexture() : null;
+  const cellThreshold = (cx: number, cy: number): number => {
+    if (!blueNoise) return hash2d(cx, cy, seed);
+    const tx = (((cx + textureOffset.x) % BLUE_NOISE_SIZE) + BLUE_NOISE_SIZE) % BLUE_NOISE_SIZE;
+    const ty = (((cy + textureOffset.y) % BLUE_NOISE_SIZE) + BLUE_NOISE_SIZE) % BLUE_NOISE_SIZE;
+    return blueNoise[ty * BLUE_NOISE_SIZE + tx];
+  };
+
   const rad = (angle * Math.PI) / 180;
   const cos = Math.cos(rad);
   const sin = Math.sin(rad);
 
-  const cellSize = dotSize;
+  const cellSize = dotSize * (options.pixelScale ?? 1);
   // ドット半径 = セルサイズの半分（ドット直径 = セルサイズ）
   // 高濃度でのベタ塗りは solidBlend で処理する
-  const dotRadius = dotSize * 0.5;
-  const edge = Math.max(0.5, 0.5 / dotSize);
+  const dotRadius = cellSize * 0.5;
+  const edge = Math.max(0.5, 0.5 / cellSize);
 
   // ドット中心でのピーク不透明度（radius < edge のとき 1.0 未満になる）
   // 正規化して中心が常に 1.0 になるようにする
@@ -161,13 +645,18 @@ function applyFMHalftone(
   // dotRadius=0 → 1 (全面補正), dotRadius=1 → 0 (補正なし)
   const subPixelBlend = Math.max(0, 1 - dotRadius);
 
+  const region = resolveRegion(width, height, options.region);
+  const sample = createDensitySampler(densityMap, width, height, region);
+
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
       const idx = y * width + x;
 
-      // 回転座標系に変換
-      const rx = x * cos + y * sin;
-      const ry = -x * sin + y * cos;
+      // 回転座標系に変換（全体画像の座標で格子を決める）
+      const px = x + region.x;
+      const py = y + region.y;
+      const rx = px * cos + py * sin;
+      const ry = -px * sin + py * cos;
 
       // 回転グリッド上のセル
       const gx = Math.floor(rx / cellSize);
@@ -199,16 +688,10 @@ function applyFMHalftone(
           const imgX = Math.round(dotRx * cos - dotRy * sin);
           const imgY = Math.round(dotRx * sin + dotRy * cos);
 
-          let d: number;
-          if (imgX >= 0 && imgX < width && imgY >= 0 && imgY < height) {
-            d = densityMap[imgY * width + imgX];
-          } else {
-            d = 0;
-          }
-          d = Math.min(d * scale, 1);
+          const d = Math.min(sample(imgX, imgY) * scale, 1);
 
-          // セルのハッシュ閾値と比較してドットの有無を決定
-          const threshold = cellHash(cx, cy);
+          // セルのしきい値と比較してドットの有無を決定
+          const threshold = cellThreshold(cx, cy);
           if (d <= threshold) continue;
 
           // アンチエイリアスを含む不透明度計算
@@ -242,6 +725,416 @@ function applyFMHalftone(
   return result;
 }
 
+/**
+ * 誤差拡散カーネル。[dx, dy, 重み] は走査方向を正としたときの分配先。
+ * Atkinson は誤差の 6/8 だけを分配し、ハイライトとシャドウを飛ばし気味にする。
+ */
+const DIFFUSION_KERNELS: Record<
+  DiffusionKernel,
+  { divisor: number; weights: [number, number, number][] }
+> = {
+  "floyd-steinberg": {
+    divisor: 16,
+    weights: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+  },
+  atkinson: {
+    divisor: 8,
+    weights: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+  },
+  jarvis: {
+    divisor: 48,
+    weights: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+  },
+  stucki: {
+    divisor: 42,
+    weights: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1],
+    ],
+  },
+};
+
+/**
+ * 誤差拡散ハーフトーン。
+ * dotSize 角のセル単位で濃度を 2 値化し、量子化誤差を未処理のセルへ分配する。
+ * スクリーン角度は持たない。サーペンタイン走査で行方向の筋を抑える。
+ */
+function applyDiffusionHalftone(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  options: HalftoneOptions
+): Float32Array {
+  const { diffusionKernel = "floyd-steinberg", serpentine = true } = options;
+  const scale = options.density ?? 1;
+  const kernel = DIFFUSION_KERNELS[diffusionKernel];
+  const cellSize = Math.max(1, options.dotSize * (options.pixelScale ?? 1));
+  const region = resolveRegion(width, height, options.region);
+
+  // バッファを覆うセル範囲（全体画像の座標で格子を決める）
+  const gx0 = Math.floor(region.x / cellSize);
+  const gy0 = Math.floor(region.y / cellSize);
+  const cols = Math.floor((region.x + width - 1) / cellSize) - gx0 + 1;
+  const rows = Math.floor((region.y + height - 1) / cellSize) - gy0 + 1;
+
+  // ピクセル → セルの対応を前計算
+  const cellX = new Int32Array(width);
+  const cellY = new Int32Array(height);
+  for (let x = 0; x < width; x++) cellX[x] = Math.floor((x + region.x) / cellSize) - gx0;
+  for (let y = 0; y < height; y++) cellY[y] = Math.floor((y + region.y) / cellSize) - gy0;
+
+  // セル内の平均濃度
+  const values = new Float32Array(cols * rows);
+  const counts = new Uint32Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const ci = cellY[y] * cols + cellX[x];
+      values[ci] += densityMap[y * width + x];
+      counts[ci]++;
+    }
+  }
+  for (let i = 0; i < values.length; i++) {
+    values[i] = counts[i] > 0 ? Math.min((values[i] / counts[i]) * scale, 1) : 0;
+  }
+
+  // 2 値化と誤差の分配
+  const cells = new Uint8Array(cols * rows);
+  for (let row = 0; row < rows; row++) {
+    // 全体画像の行番号で向きを決め、タイル位置によらず同じ走査にする
+    const reverse = serpentine && (gy0 + row) % 2 === 1;
+    for (let i = 0; i < cols; i++) {
+      const col = reverse ? cols - 1 - i : i;
+      const ci = row * cols + col;
+      const on = values[ci] >= 0.5;
+      cells[ci] = on ? 1 : 0;
+      const err = values[ci] - (on ? 1 : 0);
+      if (err === 0) continue;
+
+      for (const [dx, dy, w] of kernel.weights) {
+        const nx = col + (reverse ? -dx : dx);
+        const ny = row + dy;
+        if (nx < 0 || nx >= cols || ny >= rows) continue;
+        values[ny * cols + nx] += (err * w) / kernel.divisor;
+      }
+    }
+  }
+
+  const result = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      result[y * width + x] = cells[cellY[y] * cols + cellX[x]];
+    }
+  }
+  return result;
+}
+
+/** しきい値行列（各要素は 0–1 のしきい値） */
+interface ThresholdMatrix {
+  width: number;
+  height: number;
+  values: Float32Array;
+}
+
+/** n×n の Bayer 行列の順位を再帰的に生成する */
+function bayerRanks(n: number): number[][] {
+  if (n <= 1) return [[0]];
+  const half = bayerRanks(n / 2);
+  const size = half.length;
+  const out: number[][] = Array.from({ length: n }, () => new Array<number>(n));
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = half[y][x] * 4;
+      out[y][x] = v;
+      out[y][x + size] = v + 2;
+      out[y + size][x] = v + 3;
+      out[y + size][x + size] = v + 1;
+    }
+  }
+  return out;
+}
+
+/**
+ * n×n の集中型ドット行列の順位を生成する。
+ * セル中心から近い順（同距離は角度順）に点灯し、濃度とともに丸いドットが育つ。
+ */
+function clusterRanks(n: number): number[][] {
+  const c = (n - 1) / 2;
+  const cells: { x: number; y: number; dist: number; theta: number }[] = [];
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      cells.push({
+        x,
+        y,
+        dist: Math.round(((x - c) ** 2 + (y - c) ** 2) * 1000),
+        theta: Math.atan2(y - c, x - c),
+      });
+    }
+  }
+  cells.sort((a, b) => a.dist - b.dist || a.theta - b.theta);
+  const out: number[][] = Array.from({ length: n }, () => new Array<number>(n));
+  cells.forEach((cell, rank) => {
+    out[cell.y][cell.x] = rank;
+  });
+  return out;
+}
+
+/**
+ * 任意の数値行列をしきい値行列に変換する。
+ * 値の大小順に順位を付け、(順位 + 0.5) / 要素数 をしきい値にする（同値は同じ順位）。
+ */
+function toThresholdMatrix(rows: number[][]): ThresholdMatrix {
+  const height = rows.length;
+  const width = height > 0 ? rows[0].length : 0;
+  if (width === 0 || rows.some((r) => r.length !== width)) {
+    throw new Error("Threshold matrix must be a non-empty rectangle");
+  }
+  const flat = rows.flat();
+  if (flat.some((v) => !Number.isFinite(v))) {
+    throw new Error("Threshold matrix must contain only numbers");
+  }
+  return { width, height, values: rankThresholds(flat) };
+}
+
+/** 値を順位に置き換え、(順位 + 0.5) / 要素数 のしきい値にする（同値は同じ順位） */
+function rankThresholds(values: ArrayLike<number>): Float32Array {
+  const n = values.length;
+  const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => values[a] - values[b]);
+  const out = new Float32Array(n);
+  let rank = 0;
+  for (let k = 0; k < n; k++) {
+    if (k > 0 && values[order[k]] !== values[order[k - 1]]) rank = k;
+    out[order[k]] = (rank + 0.5) / n;
+  }
+  return out;
+}
+
+function resolveThresholdMatrix(options: HalftoneOptions): ThresholdMatrix {
+  const name = options.orderedMatrix ?? "bayer8";
+  if (name === "custom") {
+    return toThresholdMatrix(options.thresholdMatrix ?? [[0]]);
+  }
+  const size = Number(name.replace(/\D/g, ""));
+  return toThresholdMatrix(name.startsWith("bayer") ? bayerRanks(size) : clusterRanks(size));
+}
+
+/**
+ * テキストからしきい値行列を読み取る（UI 入力用）。
+ * 行は改行または ";"、要素は空白または "," で区切る。読み取れない場合は null。
+ */
+export function parseThresholdMatrix(text: string): number[][] | null {
+  const rows = text
+    .split(/[;\n]/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => line.split(/[\s,]+/).map(Number));
+  try {
+    toThresholdMatrix(rows);
+    return rows;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 組織的ディザ: 各ピクセルの濃度を、タイル状に敷いたしきい値行列と比較して 2 値化する。
+ * 行列の 1 要素は dotSize 角で、AM と同様にスクリーン角度で回転させて参照する。
+ */
+function applyOrderedHalftone(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  options: HalftoneOptions
+): Float32Array {
+  const scale = options.density ?? 1;
+  const matrix = resolveThresholdMatrix(options);
+  const cellSize = Math.max(1, options.dotSize * (options.pixelScale ?? 1));
+  const rad = (options.angle * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const region = resolveRegion(width, height, options.region);
+  const result = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const d = Math.min(densityMap[idx] * scale, 1);
+      if (d < 0.001) continue;
+
+      // 回転座標系で行列の要素を決める（全体画像の座標）
+      const px = x + region.x + 0.5;
+      const py = y + region.y + 0.5;
+      const rx = px * cos + py * sin;
+      const ry = -px * sin + py * cos;
+      const mx = Math.floor(rx / cellSize) % matrix.width;
+      const my = Math.floor(ry / cellSize) % matrix.height;
+      const threshold =
+        matrix.values[
+          (my < 0 ? my + matrix.height : my) * matrix.width + (mx < 0 ? mx + matrix.width : mx)
+        ];
+
+      result[idx] = d > threshold ? 1 : 0;
+    }
+  }
+  return result;
+}
+
+/**
+ * RGBA 画像からパターンモード用のタイルを作る（輝度を使い、透明部分は白とみなす）。
+ */
+export function patternFromImageData(image: {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+}): HalftonePattern {
+  const { data, width, height } = image;
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    const a = data[i * 4 + 3] / 255;
+    const lum = (0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]) / 255;
+    values[i] = lum * a + (1 - a);
+  }
+  return { width, height, values };
+}
+
+/**
+ * パターンハーフトーン: アップロードしたタイルの明るさの順位をしきい値にし、
+ * 回転・タイル状に敷いて各ピクセルの濃度と比較する。
+ * タイルの幅が AM のセルサイズ 1 つ分になるよう拡大縮小し、しきい値はバイリニア補間する。
+ * 縁はしきい値の勾配から 1px 幅のアンチエイリアスを付ける。
+ */
+function applyPatternHalftone(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  options: HalftoneOptions
+): Float32Array {
+  const scale = options.density ?? 1;
+  const tile = options.pattern
+    ? { width: options.pattern.width, height: options.pattern.height, values: rankThresholds(options.pattern.values) }
+    : toThresholdMatrix(clusterRanks(8));
+  const { width: tw, height: th, values } = tile;
+
+  // タイル 1 ピクセルあたりの画像ピクセル数（縦横比は保つ）
+  const texel = amCellSize(options) / tw;
+  const rad = (options.angle * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const region = resolveRegion(width, height, options.region);
+  const result = new Float32Array(width * height);
+
+  // タイル座標でのしきい値（トーラス状にバイリニア補間）
+  const thresholdAt = (tu: number, tv: number): number => {
+    const fu = tu - 0.5;
+    const fv = tv - 0.5;
+    const u0 = Math.floor(fu);
+    const v0 = Math.floor(fv);
+    const du = fu - u0;
+    const dv = fv - v0;
+    const x0 = ((u0 % tw) + tw) % tw;
+    const y0 = ((v0 % th) + th) % th;
+    const x1 = (x0 + 1) % tw;
+    const y1 = (y0 + 1) % th;
+    const top = values[y0 * tw + x0] * (1 - du) + values[y0 * tw + x1] * du;
+    const bottom = values[y1 * tw + x0] * (1 - du) + values[y1 * tw + x1] * du;
+    return top * (1 - dv) + bottom * dv;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      const d = Math.min(densityMap[idx] * scale, 1);
+      if (d < 0.001) continue;
+
+      // 回転座標系でタイル上の位置を決める（全体画像の座標）
+      const px = x + region.x + 0.5;
+      const py = y + region.y + 0.5;
+      const tu = (px * cos + py * sin) / texel;
+      const tv = (-px * sin + py * cos) / texel;
+      const t = thresholdAt(tu, tv);
+
+      // 1px あたりのしきい値の変化量から縁までの距離を見積もる
+      const h = 0.5 / texel;
+      const gu = (thresholdAt(tu + h, tv) - thresholdAt(tu - h, tv)) / (2 * h * texel);
+      const gv = (thresholdAt(tu, tv + h) - thresholdAt(tu, tv - h)) / (2 * h * texel);
+      const grad = Math.sqrt(gu * gu + gv * gv);
+      const opacity = grad > 1e-6 ? 0.5 + (d - t) / grad : d > t ? 1 : 0;
+
+      result[idx] = Math.max(0, Math.min(1, opacity));
+    }
+  }
+  return result;
+}
+
+/**
+ * ベタ: 濃度がしきい値以上のところをベタで塗る（網点を使わない）。
+ * 縁は濃度の勾配からしきい値の等値線までの距離を見積もり、1px 幅のアンチエイリアスを付ける。
+ */
+function applySolidHalftone(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  options: HalftoneOptions
+): Float32Array {
+  const scale = options.density ?? 1;
+  const threshold = Math.max(0.001, Math.min(1, options.solidThreshold ?? 0.5));
+  const region = resolveRegion(width, height, options.region);
+  const sample = createDensitySampler(densityMap, width, height, region);
+  /** 全体画像の端では端のピクセルを繰り返す（外側を 0 とみなすと画像の縁がぼける） */
+  const densityAt = (imgX: number, imgY: number) =>
+    Math.min(
+      sample(
+        Math.max(0, Math.min(region.fullWidth - 1, imgX)),
+        Math.max(0, Math.min(region.fullHeight - 1, imgY))
+      ) * scale,
+      1
+    );
+  const result = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x + region.x;
+      const py = y + region.y;
+      const d = densityAt(px, py);
+      const gx = (densityAt(px + 1, py) - densityAt(px - 1, py)) / 2;
+      const gy = (densityAt(px, py + 1) - densityAt(px, py - 1)) / 2;
+      const grad = Math.sqrt(gx * gx + gy * gy);
+      const opacity = grad > 1e-6 ? 0.5 + (d - threshold) / grad : d >= threshold ? 1 : 0;
+      result[y * width + x] = Math.max(0, Math.min(1, opacity));
+    }
+  }
+  return result;
+}
+
+/**
+ * 階調（ポスタリゼーション）: 濃度を tintLevels 段のチントに丸め、
+ * 各段を 1 単位角の Bayer 8×8 スクリーンで均一に埋める。
+ * 段ごとの網％が一定になるため、シルクスクリーンの版下のような平網の塗り分けになる。
+ */
+function applyLevelsHalftone(
+  densityMap: Float32Array,
+  width: number,
+  height: number,
+  options: HalftoneOptions
+): Float32Array {
+  const scale = options.density ?? 1;
+  const levels = Math.max(1, Math.round(options.tintLevels ?? 3));
+  const quantized = new Float32Array(densityMap.length);
+  for (let i = 0; i < densityMap.length; i++) {
+    quantized[i] = Math.round(Math.min(densityMap[i] * scale, 1) * levels) / levels;
+  }
+  return applyOrderedHalftone(quantized, width, height, {
+    ...options,
+    density: 1,
+    dotSize: 1,
+    orderedMatrix: "bayer8",
+  });
+}
+
 /**
  * ImageData の濃度マップにハーフトーンを適用し、
  * 結果の不透明度配列 (Float32Array, 0-1) を返す。
@@ -255,5 +1148,23 @@ export function applyHalftone(
   if (options.mode === "fm") {
     return applyFMHalftone(densityMap, width, height, options);
   }
+  if (options.mode === "diffusion") {
+    return applyDiffusionHalftone(densityMap, width, height, options);
+  }
+  if (options.mode === "ordered") {
+    return applyOrderedHalftone(densityMap, width, height, options);
+  }
+  if (options.mode === "pattern") {
+    return applyPatternHalftone(densityMap, width, height, options);
+  }
+  if (options.mode === "hybrid") {
+    return applyHybridHalftone(densityMap, width, height, options);
+  }
+  if (options.mode === "solid") {
+    return applySolidHalftone(densityMap, width, height, options);
+  }
+  if (options.mode === "levels") {
+    return applyLevelsHalftone(densityMap, width, height, options);
+  }
   return applyAMHalftone(densityMap, width, height, options);
 }
@@ -0,0 +1,149 @@
+/**
+ * Kubelka–Munk によるインク膜の重ね刷りモデル
+ *
+ * 乗算モデルはインクを光を吸収するだけのフィルタとして扱うため、
+ * 白・蛍光・メタリックのように光を散乱するインクや、下の色を隠す不透明インクを表せない。
+ * Kubelka–Munk 理論ではインク膜を吸収係数 K と散乱係数 S（RGB チャンネルごと）で表し、
+ * 下地の反射率 Rg に対する刷り上がりの反射率をリニア光で
+ *
+ *   R = R₀ + T² × Rg / (1 − R₀ × Rg)
+ *
+ * と求める（R₀ = 黒い下地の上での膜の反射率、T = 膜の透過率）。
+ * S は不透明度の分類から決め、K は白い紙の上でインクの hex 色そのものに刷り上がるよう逆算する。
+ * 散乱のない透明インクでは R = Rg × ink だが、この積はリニア光で取って sRGB に戻す。
+ * 乗算モデルは sRGB の値どうしを掛けるため、白紙に 1 色刷った色は一致しても、
+ * 色紙や他のインクの上に重ねた色は一致しない。
+ */
+
+import { linearToSrgb, srgbToLinear, type RGB } from "./color";
+
+/**
+ * インクの重ね方のモデル。
+ * "multiply" = インク色の sRGB 値を透過率として掛け合わせる。
+ * "kubelka-munk" = インク膜の吸収と散乱による刷り上がりをリニア光で求めて sRGB に戻し、
+ * 下地の色と網点の被覆率で sRGB の値のまま按分する
+ */
+export type MixingModel = "multiply" | "kubelka-munk";
+
+/** インクの不透明度の分類 */
+export type InkOpacityClass = "transparent" | "semi-opaque" | "opaque";
+
+/** 分類ごとのインク膜 1 層あたりの散乱係数 S */
+const SCATTERING: Record<InkOpacityClass, number> = {
+  // 散乱なし: 下地をインク色で割り引くだけのフィルタ（積はリニア光で取る）
+  transparent: 0,
+  // 黒い下地では白インクが 3 割ほどの反射率になり、下地が透ける
+  "semi-opaque": 0.5,
+  // 黒い下地でも白インクが 9 割近く出る
+  opaque: 8,
+};
+
+/** 逆算で扱う反射率の下限（真っ黒なインクで K が発散しないようにする） */
+const MIN_REFLECTANCE = 1e-4;
+
+/** K の二分探索の反復回数 */
+const FIT_ITER = 48;
+
+/** 刷り上がりの対応表の分解能（下地の sRGB 値 0–255 を等分する） */
+const CURVE_SIZE = 1024;
+
+/** インクの吸収係数と散乱係数（リニア RGB のチャンネルごと） */
+export interface InkCoefficients {
+  absorption: [number, number, number];
+  scattering: [number, number, number];
+}
+
+/** インク膜 1 層の光学特性（リニア RGB のチャンネルごと） */
+export interface InkFilm {
+  /** 黒い下地の上での反射率 R₀ */
+  reflectance: [number, number, number];
+  /** 往復の透過率 T² */
+  transmittance: [number, number, number];
+}
+
+/** K, S の膜 1 層の R₀ と T² */
+function filmOptics(k: number, s: number): [number, number] {
+  if (s <= 0) return [0, Math.exp(-2 * k)];
+  const a = 1 + k / s;
+  const b = Math.sqrt(a * a - 1);
+  // b → 0 (K = 0) の極限では sinh(bS)/b → S
+  if (b < 1e-6) return [s / (a * s + 1), 1 / (a * s + 1) ** 2];
+  // 大きな bS で sinh/cosh が溢れないよう tanh で表す
+  const th = Math.tanh(b * s);
+  const denom = a * th + b;
+  const t = b / (Math.cosh(b * s) * denom);
+  return [th / denom, t * t];
+}
+
+/** 白い下地 (Rg = 1) の上での膜の反射率 */
+function reflectanceOnWhite(k: number, s: number): number {
+  const [r0, t2] = filmOptics(k, s);
+  return r0 + t2 / (1 - r0);
+}
+
+/** 白い紙の上で反射率 target になる吸収係数 K を求める */
+function fitAbsorption(target: number, s: number): number {
+  const w = Math.max(MIN_REFLECTANCE, Math.min(1, target));
+  if (s <= 0) return -Math.log(w) / 2;
+  if (w >= 1) return 0;
+  // 反射率は K について単調減少するため、上限を広げてから二分探索する
+  let hi = 1;
+  while (reflectanceOnWhite(hi, s) > w && hi < 1e6) hi *= 2;
+  let lo = 0;
+  for (let i = 0; i < FIT_ITER; i++) {
+    const mid = (lo + hi) / 2;
+    if (reflectanceOnWhite(mid, s) > w) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** インクの hex 色と不透明度の分類から吸収係数と散乱係数を求める */
+export function inkCoefficients(ink: RGB, opacityClass: InkOpacityClass): InkCoefficients {
+  const s = SCATTERING[opacityClass];
+  return {
+    absorption: [
+      fitAbsorption(srgbToLinear(ink.r), s),
+      fitAbsorption(srgbToLinear(ink.g), s),
+      fitAbsorption(srgbToLinear(ink.b), s),
+    ],
+    scattering: [s, s, s],
+  };
+}
+
+/** インク膜 1 層の光学特性を求める */
+export function inkFilm(ink: RGB, opacityClass: InkOpacityClass): InkFilm {
+  const { absorption, scattering } = inkCoefficients(ink, opacityClass);
+  const optics = [0, 1, 2].map((c) => filmOptics(absorption[c], scattering[c]));
+  return {
+    reflectance: [optics[0][0], optics[1][0], optics[2][0]],
+    transmittance: [optics[0][1], optics[1][1], optics[2][1]],
+  };
+}
+
+/** 下地の反射率 background (リニア光) の上に膜を刷ったときのチャンネル c の反射率 */
+export function printOver(film: InkFilm, c: number, background: number): number {
+  const r0 = film.reflectance[c];
+  return r0 + (film.transmittance[c] * background) / (1 - r0 * background);
+}
+
+/**
+ * 下地の sRGB 値 (0–255) から膜を刷った後の sRGB 値への対応表をチャンネルごとに作る。
+ * 合成ステージでピクセルごとのガンマ変換を省くために使う。
+ */
+export function printCurves(film: InkFilm): Float32Array[] {
+  return [0, 1, 2].map((c) => {
+    const curve = new Float32Array(CURVE_SIZE + 1);
+    for (let i = 0; i <= CURVE_SIZE; i++) {
+      curve[i] = linearToSrgb(printOver(film, c, srgbToLinear((i * 255) / CURVE_SIZE)));
+    }
+    return curve;
+  });
+}
+
+/** printCurves の対応表を下地の sRGB 値 (0–255) で線形補間して引く */
+export function samplePrintCurve(curve: Float32Array, background: number): number {
+  const f = (Math.max(0, Math.min(255, background)) * CURVE_SIZE) / 255;
+  const i = Math.min(CURVE_SIZE - 1, Math.floor(f));
+  return curve[i] + (curve[i + 1] - curve[i]) * (f - i);
+}
@@ -0,0 +1,82 @@
+/**
+ * 出力仕様（用紙サイズ・解像度・線数）
+ *
+ * 印刷所に伝える「A3 に 55 LPI」のような物理的な指定を、
+ * 仕上がり寸法・書き出しピクセル数・スクリーンのセルサイズに換算する。
+ * 画像の配置は入稿用 PDF と同じく、向きを画像に合わせて仕上がり（＋塗り足し）を覆うように拡大する。
+ */
+
+import { PDF_PAGE_SIZES, type PdfPageSize } from "./pdf";
+
+const MM_PER_INCH = 25.4;
+
+export interface OutputSpec {
+  /** 用紙（仕上がり）サイズ */
+  pageSize: PdfPageSize;
+  /** 書き出し解像度 (dots per inch) */
+  dpi: number;
+  /** スクリーン線数 (lines per inch) */
+  lpi: number;
+}
+
+/**
+ * ステンシル処理に渡すスクリーン線数の指定。
+ * referenceWidth 単位の画像幅が printWidth (mm) に刷られるものとして、セルサイズを 1/lpi インチにする
+ */
+export interface ScreenRuling {
+  /** スクリーン線数 (lines per inch) */
+  lpi: number;
+  /** 画像全体の印刷幅 (mm) */
+  printWidth: number;
+}
+
+/**
+ * 画像を用紙に配置したときの印刷寸法 (mm)。
+ * aspect は画像の幅 / 高さ。bleed を指定すると塗り足しまで覆う大きさにする。
+ */
+export function printSize(
+  pageSize: PdfPageSize,
+  aspect: number,
+  bleed = 0
+): { width: number; height: number } {
+  const size = PDF_PAGE_SIZES[pageSize];
+  const landscape = aspect > 1;
+  const trimW = (landscape ? size.height : size.width) + bleed * 2;
+  const trimH = (landscape ? size.width : size.height) + bleed * 2;
+  const width = Math.max(trimW, trimH * aspect);
+  return { width, height: width / aspect };
+}
+
+/** 出力仕様で書き出すときの画像のピクセル数 */
+export function outputPixelSize(
+  spec: OutputSpec,
+  aspect: number,
+  bleed = 0
+): { width: number; height: number } {
+  const { width } = printSize(spec.pageSize, aspect, bleed);
+  const px = Math.max(1, Math.round((width / MM_PER_INCH) * spec.dpi));
+  return { width: px, height: Math.max(1, Math.round(px / aspect)) };
+}
+
+/** 出力仕様からステンシル処理用のスクリーン線数の指定を作る */
+export function screenRuling(spec: OutputSpec, aspect: number, bleed = 0): ScreenRuling {
+  return { lpi: spec.lpi, printWidth: printSize(spec.pageSize, aspect, bleed).width };
+}
+
+/** スクリーンのセル（網点の中心間隔）の物理寸法 (mm) */
+export function screenPitch(lpi: number): number {
+  return MM_PER_INCH / lpi;
+}
+
+/** 印刷寸法 (mm) を referenceWidth を基準とした単位に換算する。printWidth は画像全体の印刷幅 (mm) */
+export function mmToUnits(mm: number, printWidth: number, referenceWidth: number): number {
+  return (referenceWidth * mm) / printWidth;
+}
+
+/**
+ * スクリーンのセルサイズ（referenceWidth を基準とした単位）。
+ * 出力解像度によらず、印刷したときに 1/lpi インチになる。
+ */
+export function rulingCellSize(ruling: ScreenRuling, referenceWidth: number): number {
+  return mmToUnits(screenPitch(ruling.lpi), ruling.printWidth, referenceWidth);
+}
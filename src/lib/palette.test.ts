@@ -0,0 +1,83 @@
+import { describe, expect, test } from "vitest";
+import { hexToRgb, luminance } from "./color";
+import { clusterColors, suggestPalettes } from "./palette";
+import type { StencilColor, StencilOptions } from "./stencil";
+
+const options: StencilOptions = {
+  colors: [],
+  dotSize: 4,
+  misregistration: 0,
+  grain: 0,
+  inkOpacity: 1,
+  paperColor: "#FFFFFF",
+  decomposeMethod: "exact",
+};
+
+const library: StencilColor[] = [
+  { name: "Blue", color: "#0078BF" },
+  { name: "Yellow", color: "#FFE800" },
+  { name: "Bright Red", color: "#F15060" },
+  { name: "Green", color: "#00A95C" },
+  { name: "Blue", color: "#0078BF" },
+  { name: "Black", color: "#000000" },
+];
+
+/** 左右に 2 色を塗り分けた画像 */
+function twoColorImage(left: string, right: string, width = 32, height = 16) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const a = hexToRgb(left);
+  const b = hexToRgb(right);
+  for (let i = 0; i < width * height; i++) {
+    const { r, g, b: bl } = i % width < width / 2 ? a : b;
+    data.set([r, g, bl, 255], i * 4);
+  }
+  return { data, width, height };
+}
+
+describe("clusterColors", () => {
+  test("finds the colors of the image and their share", () => {
+    const clusters = clusterColors(twoColorImage("#0078BF", "#FFE800"), 4);
+    expect(clusters).toHaveLength(2);
+    for (const { weight } of clusters) expect(weight).toBeCloseTo(0.5);
+  });
+
+  test("ignores transparent pixels", () => {
+    const image = twoColorImage("#0078BF", "#FFE800");
+    for (let i = 0; i < image.width * image.height; i++) {
+      if (i % image.width >= image.width / 2) image.data[i * 4 + 3] = 0;
+    }
+    const clusters = clusterColors(image, 4);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].weight).toBe(1);
+  });
+});
+
+describe("suggestPalettes", () => {
+  const image = twoColorImage("#0078BF", "#F15060");
+  const suggestions = suggestPalettes(image, options, { inkCount: 2, library, maxSuggestions: 6 });
+
+  test("ranks the inks the image was made of first", () => {
+    expect(suggestions[0].colors.map((c) => c.name).sort()).toEqual(["Blue", "Bright Red"]);
+    expect(suggestions[0].error).toBeLessThan(1);
+    const errors = suggestions.map((s) => s.error);
+    expect(errors).toEqual([...errors].sort((a, b) => a - b));
+  });
+
+  test("orders each palette lightest first", () => {
+    for (const { colors } of suggestions) {
+      const [first, second] = colors.map((c) => {
+        const { r, g, b } = hexToRgb(c.color);
+        return luminance(r, g, b);
+      });
+      expect(first).toBeGreaterThanOrEqual(second);
+    }
+  });
+
+  test("does not suggest the same ink twice", () => {
+    const keys = suggestions.map((s) => s.colors.map((c) => c.color).sort().join("+"));
+    expect(new Set(keys).size).toBe(keys.length);
+    for (const { colors } of suggestions) {
+      expect(new Set(colors.map((c) => c.color)).size).toBe(colors.length);
+    }
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * 元画像からのインクパレットの提案
+ *
+ * 画像の色を CIELAB で k-means クラスタリングして代表色にまとめ、
+ * インクの候補から N 色を選んだときの再現誤差を代表色ごとに測る。
+ * 誤差は現在の設定（色分解モード・混色モデル・紙色・濃度・不透明度）のまま
+ * 色分解 → 階調変換 → 合成 を網点なしの連続階調で通した刷り上がりと元の色の ΔE76 を、
+ * 代表色の画素数で重み付けした平均とする。
+ * 組み合わせは多いため、1 色ずつ増やしながら誤差の小さい候補だけを残すビームサーチで探す。
+ */
+
+import { hexToRgb, linearToLab, luminance, srgbToLinear, type RGB } from "./color";
+import { createRng } from "./random";
+import {
+  applyToneTransform,
+  compositePlates,
+  decomposeSource,
+  knockoutPlates,
+  resolveAllInkSettings,
+  resolvePrintOrder,
+  type ImageDataLike,
+  type StencilColor,
+  type StencilOptions,
+  type StencilPlate,
+} from "./stencil";
+
+/** 画像の代表色 */
+export interface ColorCluster {
+  /** 代表色 (sRGB 0–255) */
+  rgb: RGB;
+  /** 代表色の CIELAB */
+  lab: [number, number, number];
+  /** 画像に占める割合 (0–1) */
+  weight: number;
+}
+
+/** 提案するパレット */
+export interface PaletteSuggestion {
+  /** インク（明るい順。パレット順がそのまま刷り順になる） */
+  colors: StencilColor[];
+  /** 代表色の平均色差 ΔE76（小さいほど元画像に近い） */
+  error: number;
+}
+
+export interface PaletteSuggestOptions {
+  /** 選ぶインクの数 */
+  inkCount: number;
+  /** インクの候補 */
+  library: StencilColor[];
+  /** 返す候補の数。デフォルト: 5 */
+  maxSuggestions?: number;
+  /** 代表色の数。デフォルト: 12 */
+  clusters?: number;
+}
+
+/** クラスタリングに使う画素数の上限（間引いて使う） */
+const MAX_SAMPLES = 4096;
+
+/** k-means の反復回数 */
+const KMEANS_ITER = 12;
+
+/** ビームサーチで残す候補の数 */
+const BEAM_WIDTH = 8;
+
+/** 透明とみなすアルファ値 (0–255) */
+const ALPHA_CUTOFF = 128;
+
+/** sRGB (0–255) を CIELAB に変換 */
+function srgbToLab(r: number, g: number, b: number): [number, number, number] {
+  return linearToLab(srgbToLinear(r), srgbToLinear(g), srgbToLinear(b));
+}
+
+/** CIELAB の 2 色間の距離の 2 乗 */
+function labDistanceSq(a: ArrayLike<number>, ai: number, b: ArrayLike<number>, bi: number): number {
+  const dl = a[ai] - b[bi];
+  const da = a[ai + 1] - b[bi + 1];
+  const db = a[ai + 2] - b[bi + 2];
+  return dl * dl + da * da + db * db;
+}
+
+/**
+ * 画像の色を CIELAB の k-means で count 色の代表色にまとめる。
+ * 画素は格子状に間引き、透明な画素は除く。初期値は k-means++ でシードから決定論的に選ぶ。
+ * 画素が割り当てられなかった代表色は除くため、返る数は count 以下になる。
+ */
+export function clusterColors(image: ImageDataLike, count: number, seed = 0): ColorCluster[] {
+  const { data, width, height } = image;
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / MAX_SAMPLES)));
+  const rgbs: number[] = [];
+  const labs: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const off = (y * width + x) * 4;
+      if (data[off + 3] < ALPHA_CUTOFF) continue;
+      rgbs.push(data[off], data[off + 1], data[off + 2]);
+      labs.push(...srgbToLab(data[off], data[off + 1], data[off + 2]));
+    }
+  }
+  const n = labs.length / 3;
+  if (n === 0) return [];
+  const k = Math.min(count, n);
+
+  // k-means++: 既存の中心から遠い画素ほど選ばれやすくする
+  const rng = createRng(seed);
+  const centers = new Float64Array(k * 3);
+  const nearest = new Float64Array(n).fill(Infinity);
+  let pick = Math.floor(rng() * n);
+  for (let c = 0; c < k; c++) {
+    centers.set(labs.slice(pick * 3, pick * 3 + 3), c * 3);
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      nearest[i] = Math.min(nearest[i], labDistanceSq(labs, i * 3, centers, c * 3));
+      total += nearest[i];
+    }
+    let r = rng() * total;
+    pick = n - 1;
+    for (let i = 0; i < n; i++) {
+      r -= nearest[i];
+      if (r < 0) {
+        pick = i;
+        break;
+      }
+    }
+  }
+
+  const assignment = new Int32Array(n);
+  const counts = new Int32Array(k);
+  const rgbSums = new Float64Array(k * 3);
+  for (let iter = 0; iter < KMEANS_ITER; iter++) {
+    for (let i = 0; i < n; i++) {
+      let best = 0;
+      let bestDist = Infinity;
+      for (let c = 0; c < k; c++) {
+        const d = labDistanceSq(labs, i * 3, centers, c * 3);
+        if (d < bestDist) {
+          bestDist = d;
+          best = c;
+        }
+      }
+      assignment[i] = best;
+    }
+    const labSums = new Float64Array(k * 3);
+    counts.fill(0);
+    rgbSums.fill(0);
+    for (let i = 0; i < n; i++) {
+      const c = assignment[i];
+      counts[c]++;
+      for (let ch = 0; ch < 3; ch++) {
+        labSums[c * 3 + ch] += labs[i * 3 + ch];
+        rgbSums[c * 3 + ch] += rgbs[i * 3 + ch];
+      }
+    }
+    for (let c = 0; c < k; c++) {
+      if (counts[c] === 0) continue;
+      for (let ch = 0; ch < 3; ch++) centers[c * 3 + ch] = labSums[c * 3 + ch] / counts[c];
+    }
+  }
+
+  const clusters: ColorCluster[] = [];
+  for (let c = 0; c < k; c++) {
+    if (counts[c] === 0) continue;
+    const rgb = {
+      r: rgbSums[c * 3] / counts[c],
+      g: rgbSums[c * 3 + 1] / counts[c],
+      b: rgbSums[c * 3 + 2] / counts[c],
+    };
+    clusters.push({ rgb, lab: srgbToLab(rgb.r, rgb.g, rgb.b), weight: counts[c] / n });
+  }
+  return clusters;
+}
+
+/**
+ * パレット colors で代表色を刷ったときの平均色差 ΔE76 を求める。
+ * 代表色を 1 行に並べた画像を現在の設定で色分解・階調変換し、
+ * 濃度をそのまま網点の被覆率とみなして合成する（グレイン・版ずれ・ドットゲインは含めない）。
+ */
+export function paletteError(
+  clusters: ColorCluster[],
+  colors: StencilColor[],
+  options: StencilOptions
+): number {
+  const width = clusters.length;
+  const data = new Uint8ClampedArray(width * 4);
+  clusters.forEach(({ rgb }, i) => data.set([rgb.r, rgb.g, rgb.b, 255], i * 4));
+
+  // 代表色は数が少ないため LUT を作らずピクセルごとに解く
+  const evalOptions: StencilOptions = {
+    ...options,
+    colors,
+    printOrder: undefined,
+    decomposeMethod: "exact",
+    region: undefined,
+    grain: 0,
+    paperStock: "none",
+    transparentBg: false,
+  };
+  const maps = applyToneTransform(decomposeSource({ data, width, height: 1 }, evalOptions), width, evalOptions);
+  const inks = resolveAllInkSettings(evalOptions);
+  const plates: StencilPlate[] = colors.map((c, ci) => {
+    const { density, inkOpacity } = inks[ci];
+    return {
+      name: c.name,
+      color: c.color,
+      map: maps[ci].map((d) => Math.max(0, Math.min(1, d * density))),
+      inkOpacity,
+      opacityClass: c.opacityClass ?? "transparent",
+      overprint: c.overprint ?? "overprint",
+      offsetX: 0,
+      offsetY: 0,
+    };
+  });
+  const printed = compositePlates(
+    knockoutPlates(plates, resolvePrintOrder(evalOptions)), width, 1, evalOptions
+  );
+
+  let error = 0;
+  clusters.forEach(({ lab, weight }, i) => {
+    const out = srgbToLab(printed[i * 4], printed[i * 4 + 1], printed[i * 4 + 2]);
+    error += weight * Math.sqrt(labDistanceSq(out, 0, lab, 0));
+  });
+  return error;
+}
+
+/** インクが色と不透明度の分類で区別できるときの識別子（名前は重複しうるため使わない） */
+function inkKey(ink: StencilColor): string {
+  return `${ink.color.toUpperCase()}/${ink.opacityClass ?? "transparent"}`;
+}
+
+/**
+ * 元画像に合うインクの組み合わせを library から inkCount 色選び、誤差の小さい順に返す。
+ * インクは明るい順に並べ、明るい色から刷る（Kubelka–Munk では刷り順も誤差に含まれる）。
+ * library に同じインクが重なっている場合は最初の 1 つだけを候補にする。
+ */
+export function suggestPalettes(
+  image: ImageDataLike,
+  options: StencilOptions,
+  { inkCount, library, maxSuggestions = 5, clusters: clusterCount = 12 }: PaletteSuggestOptions
+): PaletteSuggestion[] {
+  const clusters = clusterColors(image, clusterCount, options.seed ?? 0);
+  const candidates = library
+    .map((_, i) => i)
+    .filter((i) => library.findIndex((ink) => inkKey(ink) === inkKey(library[i])) === i);
+  const count = Math.min(inkCount, candidates.length);
+  if (clusters.length === 0 || count <= 0) return [];
+
+  const lightness = library.map((ink) => {
+    const { r, g, b } = hexToRgb(ink.color);
+    return luminance(r, g, b);
+  });
+  const toColors = (indices: number[]) =>
+    [...indices].sort((a, b) => lightness[b] - lightness[a]).map((i) => ({ ...library[i] }));
+
+  // ビームサーチ: 残した候補それぞれに 1 色ずつ足し、誤差の小さい BEAM_WIDTH 個を次に残す
+  let beam: { indices: number[]; suggestion: PaletteSuggestion }[] = [
+    { indices: [], suggestion: { colors: [], error: Infinity } },
+  ];
+  for (let size = 1; size <= count; size++) {
+    const seen = new Set<string>();
+    const next: typeof beam = [];
+    for (const { indices } of beam) {
+      for (const i of candidates) {
+        if (indices.includes(i)) continue;
+        const grown = [...indices, i].sort((a, b) => a - b);
+        const key = grown.join(",");
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const colors = toColors(grown);
+        next.push({ indices: grown, suggestion: { colors, error: paletteError(clusters, colors, options) } });
+      }
+    }
+    next.sort((a, b) => a.suggestion.error - b.suggestion.error);
+    beam = next.slice(0, size === count ? maxSuggestions : BEAM_WIDTH);
+  }
+  return beam.map((b) => b.suggestion);
+}
@@ -0,0 +1,338 @@
+/**
+ * 入稿用 PDF の生成
+ *
+ * 1 ページ目に RGB の合成プレビュー、2 ページ目に各インクを
+ * Separation 色空間（スポットカラー）の版として重ね刷り (overprint) で配置する。
+ * トンボ（コーナートンボ・センタートンボ）と塗り足しに対応。
+ * DOM 非依存のため Web Worker からも呼び出し可能。
+ */
+
+import { hexToRgb } from "./color";
+
+export type PdfPageSize = "a5" | "a4" | "a3" | "letter" | "tabloid";
+
+/** 仕上がりサイズ (mm, 縦向き) */
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { name: string; width: number; height: number }> = {
+  a5: { name: "A5", width: 148, height: 210 },
+  a4: { name: "A4", width: 210, height: 297 },
+  a3: { name: "A3", width: 297, height: 420 },
+  letter: { name: "Letter", width: 215.9, height: 279.4 },
+  tabloid: { name: "Tabloid", width: 279.4, height: 431.8 },
+};
+
+export interface PdfLayout {
+  /** 仕上がりサイズ。向きは画像の縦横比に合わせて自動で決まる */
+  pageSize: PdfPageSize;
+  /** 塗り足し幅 (mm) */
+  bleed: number;
+  /** トンボ（トリムマーク・レジストレーションマーク）を描画する */
+  marks: boolean;
+}
+
+/** PDF に配置する 1 色分の版 */
+export interface PdfPlate {
+  /** インク名。Separation 色空間の名前になる */
+  name: string;
+  /** インクの hex カラーコード（代替色空間での表示色） */
+  color: string;
+  /** インク被覆率 (0–1) */
+  map: Float32Array;
+}
+
+export interface PdfInput {
+  width: number;
+  height: number;
+  /** 合成プレビューの RGBA ピクセル */
+  composite: Uint8ClampedArray;
+  plates: PdfPlate[];
+}
+
+/** mm → pt */
+const MM = 72 / 25.4;
+/** トンボを仕上がり線からどれだけ離すか (mm、塗り足しの外側から) */
+const MARK_OFFSET = 3;
+/** トンボの線の長さ (mm) */
+const MARK_LENGTH = 6;
+/** トンボ領域の外側の余白 (mm) */
+const MARK_MARGIN = 2;
+
+const encoder = new TextEncoder();
+
+/** 数値を PDF 用に整形する（不要な小数桁を落とす） */
+function num(n: number): string {
+  return String(Math.round(n * 1000) / 1000);
+}
+
+/**
+ * PDF の名前オブジェクトを生成する。
+ * 通常文字以外（空白や区切り文字、非 ASCII）は #xx でエスケープする。
+ */
+function pdfName(name: string): string {
+  let out = "/";
+  for (const byte of encoder.encode(name)) {
+    const regular =
+      byte > 0x20 && byte < 0x7f && !"()<>[]{}/%#".includes(String.fromCharCode(byte));
+    out += regular
+      ? String.fromCharCode(byte)
+      : "#" + byte.toString(16).padStart(2, "0").toUpperCase();
+  }
+  return out;
+}
+
+/** PDF 文字列リテラルのエスケープ */
+function pdfString(s: string): string {
+  return "(" + s.replace(/[\\()]/g, (c) => "\\" + c).replace(/[^\x20-\x7e]/g, "?") + ")";
+}
+
+/** zlib 形式で圧縮する。CompressionStream が使えない環境では null を返す */
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (typeof CompressionStream === "undefined") return null;
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * 同名で色の異なるインクがあると Separation が衝突するため、
+ * 2 つ目以降に番号を付けて一意な名前にする。
+ */
+function uniqueSeparationNames(plates: PdfPlate[]): string[] {
+  const seen = new Map<string, string>();
+  return plates.map((p) => {
+    const base = p.name.trim() || "Ink";
+    let name = base;
+    for (let n = 2; seen.has(name) && seen.get(name) !== p.color.toLowerCase(); n++) {
+      name = `${base} ${n}`;
+    }
+    seen.set(name, p.color.toLowerCase());
+    return name;
+  });
+}
+
+/** ベジェ曲線で円を描くパス */
+function circlePath(cx: number, cy: number, r: number): string {
+  const k = r * 0.5523;
+  return [
+    `${num(cx + r)} ${num(cy)} m`,
+    `${num(cx + r)} ${num(cy + k)} ${num(cx + k)} ${num(cy + r)} ${num(cx)} ${num(cy + r)} c`,
+    `${num(cx - k)} ${num(cy + r)} ${num(cx - r)} ${num(cy + k)} ${num(cx - r)} ${num(cy)} c`,
+    `${num(cx - r)} ${num(cy - k)} ${num(cx - k)} ${num(cy - r)} ${num(cx)} ${num(cy - r)} c`,
+    `${num(cx + k)} ${num(cy - r)} ${num(cx + r)} ${num(cy - k)} ${num(cx + r)} ${num(cy)} c`,
+    "S",
+  ].join("\n");
+}
+
+/**
+ * トンボのコンテンツストリーム。
+ * 全版に出るよう /All (レジストレーション) 色で描画する。
+ */
+function marksContent(
+  trimX: number,
+  trimY: number,
+  trimW: number,
+  trimH: number,
+  bleed: number
+): string {
+  const off = (bleed + MARK_OFFSET) * MM;
+  const len = MARK_LENGTH * MM;
+  const ops: string[] = ["q", "/CSAll CS 1 SCN", "/GSOverprint gs", "0.25 w"];
+
+  // コーナートンボ: 各角から仕上がり線の延長上に水平・垂直の線
+  const corners: [number, number, number, number][] = [
+    [trimX, trimY, -1, -1],
+    [trimX + trimW, trimY, 1, -1],
+    [trimX, trimY + trimH, -1, 1],
+    [trimX + trimW, trimY + trimH, 1, 1],
+  ];
+  for (const [x, y, dx, dy] of corners) {
+    ops.push(`${num(x + dx * off)} ${num(y)} m ${num(x + dx * (off + len))} ${num(y)} l S`);
+    ops.push(`${num(x)} ${num(y + dy * off)} m ${num(x)} ${num(y + dy * (off + len))} l S`);
+  }
+
+  // センタートンボ: 各辺の中央にレジストレーションマーク（円＋十字）
+  const r = (len / 2) * 0.6;
+  const mid = off + len / 2;
+  const centers: [number, number][] = [
+    [trimX + trimW / 2, trimY - mid],
+    [trimX + trimW / 2, trimY + trimH + mid],
+    [trimX - mid, trimY + trimH / 2],
+    [trimX + trimW + mid, trimY + trimH / 2],
+  ];
+  for (const [cx, cy] of centers) {
+    ops.push(circlePath(cx, cy, r));
+    ops.push(`${num(cx - len / 2)} ${num(cy)} m ${num(cx + len / 2)} ${num(cy)} l S`);
+    ops.push(`${num(cx)} ${num(cy - len / 2)} m ${num(cx)} ${num(cy + len / 2)} l S`);
+  }
+
+  ops.push("Q");
+  return ops.join("\n");
+}
+
+/**
+ * 合成プレビューとスポットカラー版から入稿用 PDF を生成する。
+ */
+export async function createSeparationPdf(
+  input: PdfInput,
+  layout: PdfLayout
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { width, height, composite, plates } = input;
+
+  // --- ページの寸法 (pt) ---
+  const size = PDF_PAGE_SIZES[layout.pageSize];
+  const landscape = width > height;
+  const trimW = (landscape ? size.height : size.width) * MM;
+  const trimH = (landscape ? size.width : size.height) * MM;
+  const bleed = Math.max(0, layout.bleed);
+  const margin = (bleed + (layout.marks ? MARK_OFFSET + MARK_LENGTH + MARK_MARGIN : 0)) * MM;
+  const pageW = trimW + margin * 2;
+  const pageH = trimH + margin * 2;
+
+  // 画像は塗り足しを含む領域を覆うように配置（はみ出しはクリップ）
+  const bleedX = margin - bleed * MM;
+  const bleedY = margin - bleed * MM;
+  const bleedW = trimW + bleed * MM * 2;
+  const bleedH = trimH + bleed * MM * 2;
+  const scale = Math.max(bleedW / width, bleedH / height);
+  const imgW = width * scale;
+  const imgH = height * scale;
+  const imgX = bleedX + (bleedW - imgW) / 2;
+  const imgY = bleedY + (bleedH - imgH) / 2;
+  const placement = `${num(imgW)} 0 0 ${num(imgH)} ${num(imgX)} ${num(imgY)} cm`;
+  const clip = `${num(bleedX)} ${num(bleedY)} ${num(bleedW)} ${num(bleedH)} re W n`;
+  const marks = layout.marks ? marksContent(margin, margin, trimW, trimH, bleed) : "";
+
+  // --- オブジェクト管理 ---
+  const objects: Uint8Array[] = [];
+  const reserve = () => {
+    objects.push(new Uint8Array(0));
+    return objects.length;
+  };
+  const setObject = (id: number, body: string) => {
+    objects[id - 1] = encoder.encode(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+  const addObject = (body: string) => {
+    const id = reserve();
+    setObject(id, body);
+    return id;
+  };
+  const addStream = async (dict: string, data: Uint8Array<ArrayBuffer>) => {
+    const compressed = await deflate(data);
+    const bytes = compressed ?? data;
+    const filter = compressed ? " /Filter /FlateDecode" : "";
+    const id = reserve();
+    const head = encoder.encode(
+      `${id} 0 obj\n<< ${dict}${filter} /Length ${bytes.length} >>\nstream\n`
+    );
+    const tail = encoder.encode("\nendstream\nendobj\n");
+    const obj = new Uint8Array(head.length + bytes.length + tail.length);
+    obj.set(head, 0);
+    obj.set(bytes, head.length);
+    obj.set(tail, head.length + bytes.length);
+    objects[id - 1] = obj;
+    return id;
+  };
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+
+  // --- 共通リソース ---
+  const allCsId = addObject(
+    "[/Separation /All /DeviceCMYK << /FunctionType 2 /Domain [0 1] /C0 [0 0 0 0] /C1 [1 1 1 1] /N 1 >>]"
+  );
+  const overprintId = addObject("<< /Type /ExtGState /OP true /op true /OPM 1 >>");
+
+  // --- 1 ページ目: 合成プレビュー (DeviceRGB、アルファは白で平坦化) ---
+  const rgb = new Uint8Array(width * height * 3);
+  for (let i = 0, j = 0; i < composite.length; i += 4, j += 3) {
+    const a = composite[i + 3] / 255;
+    rgb[j] = Math.round(composite[i] * a + 255 * (1 - a));
+    rgb[j + 1] = Math.round(composite[i + 1] * a + 255 * (1 - a));
+    rgb[j + 2] = Math.round(composite[i + 2] * a + 255 * (1 - a));
+  }
+  const compositeId = await addStream(
+    `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8`,
+    rgb
+  );
+
+  // --- 2 ページ目: インクごとの Separation 版 ---
+  const sepNames = uniqueSeparationNames(plates);
+  const plateIds: number[] = [];
+  for (let pi = 0; pi < plates.length; pi++) {
+    const { color, map } = plates[pi];
+    const ink = hexToRgb(color);
+    // tint 0 → 紙（白）、tint 1 → インク色 の線形補間を代替色空間での表示に使う
+    const csId = addObject(
+      `[/Separation ${pdfName(sepNames[pi])} /DeviceRGB << /FunctionType 2 /Domain [0 1] ` +
+        `/C0 [1 1 1] /C1 [${num(ink.r / 255)} ${num(ink.g / 255)} ${num(ink.b / 255)}] /N 1 >>]`
+    );
+    const tint = new Uint8Array(width * height);
+    for (let i = 0; i < tint.length; i++) {
+      tint[i] = Math.round(Math.min(1, Math.max(0, map[i])) * 255);
+    }
+    plateIds.push(
+      await addStream(
+        `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${csId} 0 R /BitsPerComponent 8`,
+        tint
+      )
+    );
+  }
+
+  // --- ページ ---
+  const boxes =
+    `/MediaBox [0 0 ${num(pageW)} ${num(pageH)}] ` +
+    `/BleedBox [${num(bleedX)} ${num(bleedY)} ${num(bleedX + bleedW)} ${num(bleedY + bleedH)}] ` +
+    `/TrimBox [${num(margin)} ${num(margin)} ${num(margin + trimW)} ${num(margin + trimH)}]`;
+  const commonResources = `/ColorSpace << /CSAll ${allCsId} 0 R >> /ExtGState << /GSOverprint ${overprintId} 0 R >>`;
+
+  const page1Content = await addStream(
+    "",
+    encoder.encode(`q\n${clip}\nq ${placement} /Im0 Do Q\nQ\n${marks}`)
+  );
+  const page1 = addObject(
+    `<< /Type /Page /Parent ${pagesId} 0 R ${boxes} ` +
+      `/Resources << ${commonResources} /XObject << /Im0 ${compositeId} 0 R >> >> ` +
+      `/Contents ${page1Content} 0 R >>`
+  );
+
+  const plateDraws = plateIds.map((_, i) => `q ${placement} /P${i} Do Q`).join("\n");
+  const page2Content = await addStream(
+    "",
+    encoder.encode(`q\n${clip}\n/GSOverprint gs\n${plateDraws}\nQ\n${marks}`)
+  );
+  const plateXObjects = plateIds.map((id, i) => `/P${i} ${id} 0 R`).join(" ");
+  const page2 = addObject(
+    `<< /Type /Page /Parent ${pagesId} 0 R ${boxes} ` +
+      `/Resources << ${commonResources} /XObject << ${plateXObjects} >> >> ` +
+      `/Contents ${page2Content} 0 R >>`
+  );
+
+  setObject(pagesId, `<< /Type /Pages /Kids [${page1} 0 R ${page2} 0 R] /Count 2 >>`);
+  setObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  const infoId = addObject(
+    `<< /Producer ${pdfString("Stencil Canvas")} /Title ${pdfString("Stencil separations")} >>`
+  );
+
+  // --- 書き出し（ヘッダ・本体・相互参照表・トレーラ） ---
+  const header = encoder.encode("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+  const offsets: number[] = [];
+  let pos = header.length;
+  for (const obj of objects) {
+    offsets.push(pos);
+    pos += obj.length;
+  }
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n` +
+    `startxref\n${pos}\n%%EOF\n`;
+  const xrefBytes = encoder.encode(xref);
+
+  const out = new Uint8Array(pos + xrefBytes.length);
+  out.set(header, 0);
+  let cursor = header.length;
+  for (const obj of objects) {
+    out.set(obj, cursor);
+    cursor += obj.length;
+  }
+  out.set(xrefBytes, cursor);
+  return out;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "vitest";
+import { createStencilPipeline } from "./pipeline";
+import { computeStencil, type StencilOptions } from "./stencil";
+
+const WIDTH = 64;
+const HEIGHT = 48;
+
+function testImage() {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let i = 0; i < WIDTH * HEIGHT; i++) {
+    const x = i % WIDTH;
+    const y = (i / WIDTH) | 0;
+    data.set([x * 4, y * 5, 255 - x * 2, 255], i * 4);
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+const baseOptions: StencilOptions = {
+  colors: [
+    { name: "Bright Red", color: "#F15060" },
+    { name: "Blue", color: "#0078BF" },
+    { name: "Yellow", color: "#FFE800" },
+  ],
+  dotSize: 4,
+  misregistration: 2,
+  grain: 0.2,
+  noise: 0.2,
+  seed: 5,
+  // 画素数が LUT の格子点より少ないため、ピクセルごとに解く方が速い
+  decomposeMethod: "exact",
+};
+
+/** 直前の設定から 1 つずつ変えていく設定の列。各ステージのキャッシュを順に無効化する */
+const changes: [string, Partial<StencilOptions>][] = [
+  ["base", {}],
+  ["ink opacity", { inkOpacity: 0.6 }],
+  ["paper color", { paperColor: "#D9C7A7" }],
+  ["grain", { grain: 0.5 }],
+  ["noise", { noise: 0.4 }],
+  ["dot size", { dotSize: 6 }],
+  ["halftone mode", { halftoneMode: "fm" }],
+  ["color mode", { colorMode: "bold" }],
+  ["perceptual decomposition", { colorMode: "perceptual" }],
+  ["mixing model", { mixingModel: "kubelka-munk" }],
+  ["print order", { printOrder: [2, 0, 1] }],
+  ["trap", { trap: 2 }],
+  ["paper stock", { paperStock: "newsprint", compensateDotGain: true }],
+  ["invert", { invert: true }],
+  ["seed", { seed: 6 }],
+];
+
+describe("stencil pipeline", () => {
+  test("recomputes the stages a change invalidates", async () => {
+    const pipeline = createStencilPipeline();
+    const source = testImage();
+    let options = baseOptions;
+    for (const [label, change] of changes) {
+      options = { ...options, ...change };
+      const pixels = await pipeline.run(source, "source", options);
+      expect(pixels, label).toEqual(computeStencil(source, options));
+    }
+  });
+
+  test("recomputes when an ink is changed, added or removed", async () => {
+    const pipeline = createStencilPipeline();
+    const source = testImage();
+    const [red, blue, yellow] = baseOptions.colors;
+    const palettes = [
+      [red, blue, yellow],
+      [red, { ...blue, color: "#3255A4" }, yellow],
+      [red, { ...blue, overprint: "knockout" as const }, yellow],
+      [red, { ...blue, dotSize: 7, angle: 10 }, yellow],
+      [red, blue],
+      [red, blue, yellow, { name: "Black", color: "#000000" }],
+    ];
+    for (const colors of palettes) {
+      const options = { ...baseOptions, colors };
+      expect(await pipeline.run(source, "source", options)).toEqual(computeStencil(source, options));
+    }
+  });
+
+  test("redecomposes when the source changes", async () => {
+    const pipeline = createStencilPipeline();
+    const source = testImage();
+    await pipeline.run(source, "a", baseOptions);
+    const inverted = { ...source, data: source.data.map((v, i) => (i % 4 === 3 ? v : 255 - v)) };
+    expect(await pipeline.run(inverted, "b", baseOptions)).toEqual(computeStencil(inverted, baseOptions));
+  });
+
+  test("renders the same seed identically and different seeds differently", async () => {
+    const source = testImage();
+    // 大きなシードでも桁が落ちずに区別される
+    const seeds = [5, 6, 0x7ffffffe, 0x7fffffff];
+    const renders: Uint8ClampedArray[] = [];
+    for (const seed of seeds) {
+      const options = { ...baseOptions, seed };
+      const first = await createStencilPipeline().run(source, "source", options);
+      const again = await createStencilPipeline().run(source, "source", options);
+      expect(again, `seed ${seed}`).toEqual(first);
+      renders.push(first);
+    }
+    for (let i = 0; i < seeds.length; i++) {
+      for (let j = i + 1; j < seeds.length; j++) {
+        expect(renders[j], `seeds ${seeds[i]} and ${seeds[j]}`).not.toEqual(renders[i]);
+      }
+    }
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * 差分再計算つきステンシル処理パイプライン
+ *
+ * 色分解 → 階調変換 → ハーフトーン → 掠れノイズ → 合成 の各ステージの結果を
+ * 入力キーごとにキャッシュし、パラメータ変更で古くなったステージだけを再計算する。
+ * 例えばインクの不透明度や紙色の変更は合成のみ、dotSize の変更は
+ * ハーフトーン以降のみが再計算される。
+ * 色分解の LUT とスクリーン角度の割当も同じくキーつきでキャッシュする。
+ */
+
+import {
+  applyScuffNoise,
+  applyToneTransform,
+  compositePlates,
+  decomposeSource,
+  halftonePlate,
+  knockoutPlates,
+  misregistrationOffsets,
+  resolveAllInkSettings,
+  resolvePrintOrder,
+  resolveScreenAngles,
+  resolveUnit,
+  screenAnglesKey,
+  trapPlates,
+  type ImageDataLike,
+  type StencilJobOptions,
+  type StencilOptions,
+  type StencilPlate,
+} from "./stencil";
+import { resolveRegion, type HalftonePattern } from "./halftone";
+import type { DecompositionLut, LutLoader } from "./decompose";
+
+/** キーつきの 1 スロットキャッシュ */
+interface Cached<T> {
+  key: string;
+  value: T;
+}
+
+export interface StencilPipeline {
+  /**
+   * ステンシル処理を実行する。
+   * sourceKey はソース画像の同一性を表すキーで、同じ画像なら同じ値を渡す。
+   * ステージの合間にイベントループへ制御を返すため、signal で中断できる。
+   */
+  run(
+    source: ImageDataLike,
+    sourceKey: string,
+    options: StencilOptions,
+    job?: StencilJobOptions
+  ): Promise<Uint8ClampedArray>;
+  /** キャッシュを破棄する */
+  clear(): void;
+}
+
+/** パターンタイルの内容から短いキーを作る (FNV-1a) */
+function patternKey(pattern?: HalftonePattern): string {
+  if (!pattern) return "none";
+  let h = 0x811c9dc5;
+  const bytes = new Uint8Array(pattern.values.buffer, pattern.values.byteOffset, pattern.values.byteLength);
+  for (let i = 0; i < bytes.length; i++) {
+    h = Math.imul(h ^ bytes[i], 0x01000193);
+  }
+  return `${pattern.width}x${pattern.height}:${(h >>> 0).toString(16)}`;
+}
+
+/** イベントループに制御を返し、中断メッセージなどを処理できるようにする */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * ステージごとのキャッシュを持つパイプラインを生成する。
+ * 各ステージは直前の入力キーだけを保持するため、メモリ使用量は 1 回分に収まる。
+ */
+export function createStencilPipeline(): StencilPipeline {
+  // LUT と角度割当はソース画像によらないため、画像やタイルが替わっても使い回す
+  let lut: Cached<DecompositionLut> | null = null;
+  let angles: Cached<number[]> | null = null;
+  let decomposed: Cached<Float32Array[]> | null = null;
+  let toned: Cached<Float32Array[]> | null = null;
+  let halftoned: (Cached<Float32Array> | undefined)[] = [];
+  let noised: (Cached<Float32Array> | undefined)[] = [];
+  let composited: Cached<Uint8ClampedArray> | null = null;
+
+  const loadLut: LutLoader = (key, build) => {
+    if (lut?.key !== key) lut = { key, value: build() };
+    return lut.value;
+  };
+
+  return {
+    async run(source, sourceKey, options, { signal, onProgress } = {}) {
+      const { width, height } = source;
+      const { colors } = options;
+      const region = resolveRegion(width, height, options.region);
+      const unit = resolveUnit(region.fullWidth, options.referenceWidth);
+      const regionKey = `${region.x},${region.y},${region.fullWidth},${region.fullHeight}`;
+      const anglesKey = screenAnglesKey(options);
+      if (angles?.key !== anglesKey) angles = { key: anglesKey, value: resolveScreenAngles(options) };
+      const screenAngles = angles.value;
+      const inks = resolveAllInkSettings(options, screenAngles);
+      const order = resolvePrintOrder(options);
+      // モード固有のスクリーン設定
+      const screenKey = [
+        options.dotShape ?? "round", options.minDotSize ?? 1,
+        options.solidThreshold ?? 0.5, options.tintLevels ?? 3, options.fmNoise ?? "white", options.diffusionKernel ?? "floyd-steinberg", options.serpentine ?? true,
+        options.orderedMatrix ?? "bayer8", JSON.stringify(options.thresholdMatrix ?? null),
+        patternKey(options.pattern),
+      ].join("|");
+
+      // Kubelka–Munk の混色モデル（インクごとの不透明度の分類と重ねる順）
+      const mixingKey = options.mixingModel === "kubelka-munk"
+        ? `${colors.map((c) => c.opacityClass ?? "transparent").join(",")}@${order.join(",")}`
+        : "multiply";
+
+      // --- 各ステージの入力キー（前段のキーを含めて連鎖的に無効化する） ---
+      // 知覚モードと混色モデルは色分解そのものを変える
+      const decomposeKey = [
+        sourceKey, width, height, options.invert ?? false, options.decomposeMethod ?? "lut",
+        options.colorMode === "perceptual", mixingKey,
+        colors.map((c) => c.color).join(","),
+      ].join("|");
+      const toneKey = `${decomposeKey}|${options.colorMode ?? "natural"}`;
+      // ドットゲイン補正は紙の種類に依存する
+      const compensationKey = options.compensateDotGain ? options.paperStock ?? "none" : "none";
+      const halftoneKeys = inks.map((ink, ci) =>
+        [
+          toneKey, ci, ink.dotSize, ink.angle, ink.density, ink.halftoneMode, screenKey, compensationKey,
+          options.seed ?? 0, unit, regionKey,
+        ].join("|")
+      );
+      const noiseKeys = halftoneKeys.map((k) =>
+        [k, options.noise ?? 0].join("|")
+      );
+      const compositeKey = [
+        ...noiseKeys, colors.map((c) => c.name).join(","),
+        inks.map((ink) => `${ink.misregistration},${ink.inkOpacity}`).join(","),
+        order.join(","), colors.map((c) => c.overprint ?? "overprint").join(","), options.trap ?? 0,
+        options.grain, options.paperColor ?? "", options.paperStock ?? "none", mixingKey,
+        options.transparentBg ?? false,
+      ].join("|");
+
+      // --- 再計算が必要なステージ数を数えて進捗の分母にする ---
+      const stale = (cached: { key: string } | null | undefined, key: string) =>
+        cached?.key !== key;
+      let total = 1;
+      if (stale(decomposed, decomposeKey)) total++;
+      if (stale(toned, toneKey)) total++;
+      colors.forEach((_, ci) => {
+        if (stale(halftoned[ci], halftoneKeys[ci])) total++;
+        if (stale(noised[ci], noiseKeys[ci])) total++;
+      });
+      let done = 0;
+      const step = async () => {
+        done++;
+        onProgress?.(done / total);
+        await yieldToEventLoop();
+        signal?.throwIfAborted();
+      };
+
+      signal?.throwIfAborted();
+
+      // ステージ 1: 色分解
+      if (stale(decomposed, decomposeKey)) {
+        decomposed = { key: decomposeKey, value: decomposeSource(source, options, loadLut) };
+        await step();
+      }
+      const rawMaps = decomposed!.value;
+
+      // ステージ 2: 階調変換
+      if (stale(toned, toneKey)) {
+        toned = { key: toneKey, value: applyToneTransform(rawMaps, width * height, options) };
+        await step();
+      }
+      const densityMaps = toned!.value;
+
+      // インク数が減った場合に古い版を捨てる
+      halftoned = halftoned.slice(0, colors.length);
+      noised = noised.slice(0, colors.length);
+
+      for (let ci = 0; ci < colors.length; ci++) {
+        // ステージ 3: ハーフトーン
+        if (stale(halftoned[ci], halftoneKeys[ci])) {
+          halftoned[ci] = {
+            key: halftoneKeys[ci],
+            value: halftonePlate(densityMaps[ci], ci, width, height, options, screenAngles),
+          };
+          await step();
+        }
+        // ステージ 4: 掠れノイズ
+        if (stale(noised[ci], noiseKeys[ci])) {
+          noised[ci] = {
+            key: noiseKeys[ci],
+            value: applyScuffNoise(halftoned[ci]!.value, ci, width, height, options),
+          };
+          await step();
+        }
+      }
+
+      // ステージ 5: 合成
+      if (stale(composited, compositeKey)) {
+        const offsets = misregistrationOffsets(
+          inks.map((ink) => ink.misregistration), unit, options.seed ?? 0
+        );
+        const plates: StencilPlate[] = colors.map((c, ci) => ({
+          name: c.name,
+          color: c.color,
+          map: noised[ci]!.value,
+          inkOpacity: inks[ci].inkOpacity,
+          opacityClass: c.opacityClass ?? "transparent",
+          overprint: c.overprint ?? "overprint",
+          offsetX: offsets[ci].x,
+          offsetY: offsets[ci].y,
+        }));
+        composited = {
+          key: compositeKey,
+          value: compositePlates(
+            trapPlates(knockoutPlates(plates, order), width, height, options), width, height, options
+          ),
+        };
+      }
+      onProgress?.(1);
+
+      // 呼び出し側がバッファを転送してもキャッシュが壊れないようコピーを返す
+      return composited!.value.slice();
+    },
+    clear() {
+      lut = null;
+      angles = null;
+      decomposed = null;
+      toned = null;
+      halftoned = [];
+      noised = [];
+      composited = null;
+    },
+  };
+}
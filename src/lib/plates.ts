@@ -0,0 +1,42 @@
+/**
+ * 色版（セパレーション）の書き出し
+ *
+ * 各インクのハーフトーン版を、実際の製版に使える
+ * 白地に黒のグレースケール画像に変換する。
+ */
+
+/** グレースケール化した 1 色分の版画像 */
+export interface PlateImage {
+  /** インク名 (StencilColor.name) */
+  name: string;
+  /** インクの hex カラーコード */
+  color: string;
+  /** RGBA ピクセル（白地に黒） */
+  pixels: Uint8ClampedArray;
+}
+
+/**
+ * インク被覆マップ (0–1) を白地に黒の RGBA ピクセル配列に変換する。
+ * 被覆率 1 が黒 (0)、0 が白 (255)。
+ */
+export function plateToGrayscale(map: Float32Array): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(map.length * 4);
+  for (let i = 0; i < map.length; i++) {
+    const v = Math.round((1 - Math.min(1, Math.max(0, map[i]))) * 255);
+    const off = i * 4;
+    out[off] = v;
+    out[off + 1] = v;
+    out[off + 2] = v;
+    out[off + 3] = 255;
+  }
+  return out;
+}
+
+/**
+ * 版のファイル名を生成する。
+ * 同名インクが重複しても衝突しないよう刷り順の番号を付ける。
+ */
+export function plateFileName(name: string, index: number, ext: string): string {
+  const safe = name.trim().replace(/[\\/:*?"<>|\s]+/g, "_") || "ink";
+  return `${String(index + 1).padStart(2, "0")}-${safe}.${ext}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * プレビュー用の常駐 Web Worker
+ *
+ * 新しい render メッセージを受け取ると実行中のジョブを中断し、
+ * 最新のパラメータだけを処理する。進捗は段階ごとに通知する。
+ * ステージごとの結果は Worker 内にキャッシュし、変更のあった段階だけを再計算する。
+ */
+
+import { createStencilPipeline } from "./pipeline";
+import type { StencilOptions } from "./stencil";
+
+export type PreviewRequest =
+  | {
+      type: "render";
+      id: number;
+      /** ソース画像の同一性を表すキー。同じ画像なら色分解の結果を再利用する */
+      sourceKey: string;
+      data: Uint8ClampedArray;
+      width: number;
+      height: number;
+      options: StencilOptions;
+    }
+  | { type: "cancel"; id: number };
+
+export type PreviewResponse =
+  | { type: "progress"; id: number; progress: number }
+  | { type: "result"; id: number; pixels: Uint8ClampedArray }
+  | { type: "error"; id: number; message: string };
+
+let current: { id: number; controller: AbortController } | null = null;
+const pipeline = createStencilPipeline();
+
+function respond(message: PreviewResponse, transfer: Transferable[] = []): void {
+  postMessage(message, { transfer });
+}
+
+self.onmessage = async (e: MessageEvent<PreviewRequest>) => {
+  const req = e.data;
+
+  if (req.type === "cancel") {
+    if (current?.id === req.id) current.controller.abort();
+    return;
+  }
+
+  // 新しいジョブが来たら実行中のジョブは不要なので中断する
+  current?.controller.abort();
+  const job = { id: req.id, controller: new AbortController() };
+  current = job;
+
+  try {
+    const pixels = await pipeline.run(
+      { data: req.data, width: req.width, height: req.height },
+      req.sourceKey,
+      req.options,
+      {
+        signal: job.controller.signal,
+        onProgress: (progress) => respond({ type: "progress", id: job.id, progress }),
+      }
+    );
+    respond({ type: "result", id: job.id, pixels }, [pixels.buffer]);
+  } catch (err) {
+    // 中断されたジョブは呼び出し側が既に破棄しているため応答しない
+    if (job.controller.signal.aborted) return;
+    respond({
+      type: "error",
+      id: job.id,
+      message: err instanceof Error ? err.message : String(err),
+    });
+  } finally {
+    if (current === job) current = null;
+  }
+};
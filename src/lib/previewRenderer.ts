@@ -0,0 +1,113 @@
+import type { ImageDataLike, StencilJobOptions, StencilOptions } from "./stencil";
+import type { PreviewRequest, PreviewResponse } from "./preview.worker";
+
+export interface PreviewRenderer {
+  /**
+   * ステンシル処理を Worker で実行する。
+   * signal で中断すると Worker 側のジョブも打ち切られ、AbortError で reject する。
+   */
+  render(
+    source: ImageDataLike,
+    options: StencilOptions,
+    job?: StencilJobOptions
+  ): Promise<Uint8ClampedArray>;
+  /** Worker を終了する */
+  dispose(): void;
+}
+
+/**
+ * 常駐 Worker を使うプレビューレンダラーを生成する。
+ * メインスレッドをブロックせずに処理し、新しいパラメータで古いジョブを中断できる。
+ */
+export function createPreviewRenderer(): PreviewRenderer {
+  const worker = new Worker(
+    new URL("./preview.worker.ts", import.meta.url),
+    { type: "module" },
+  );
+  const pending = new Map<
+    number,
+    {
+      resolve: (pixels: Uint8ClampedArray) => void;
+      reject: (err: unknown) => void;
+      onProgress?: (progress: number) => void;
+    }
+  >();
+  let nextId = 1;
+  // ソース画像ごとのキー。同じ画像の再描画では Worker 側のキャッシュが効く
+  const sourceKeys = new WeakMap<Uint8ClampedArray, string>();
+  let nextSourceKey = 1;
+
+  const post = (req: PreviewRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(req, transfer);
+  };
+
+  worker.onmessage = (e: MessageEvent<PreviewResponse>) => {
+    const res = e.data;
+    const entry = pending.get(res.id);
+    if (!entry) return;
+    if (res.type === "progress") {
+      entry.onProgress?.(res.progress);
+      return;
+    }
+    pending.delete(res.id);
+    if (res.type === "result") entry.resolve(res.pixels);
+    else entry.reject(new Error(res.message));
+  };
+
+  worker.onerror = (e) => {
+    const err = new Error(e.message);
+    for (const entry of pending.values()) entry.reject(err);
+    pending.clear();
+  };
+
+  return {
+    render(source, options, { signal, onProgress } = {}) {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        const id = nextId++;
+        pending.set(id, { resolve, reject, onProgress });
+
+        signal?.addEventListener(
+          "abort",
+          () => {
+            if (!pending.delete(id)) return;
+            post({ type: "cancel", id });
+            reject(signal.reason);
+          },
+          { once: true }
+        );
+
+        let sourceKey = sourceKeys.get(source.data);
+        if (!sourceKey) {
+          sourceKey = `source-${nextSourceKey++}`;
+          sourceKeys.set(source.data, sourceKey);
+        }
+
+        // ソースは再利用するためコピーを転送する
+        const data = source.data.slice();
+        post(
+          {
+            type: "render",
+            id,
+            sourceKey,
+            data,
+            width: source.width,
+            height: source.height,
+            options,
+          },
+          [data.buffer]
+        );
+      });
+    },
+    dispose() {
+      worker.terminate();
+      for (const entry of pending.values()) {
+        entry.reject(new DOMException("Renderer disposed", "AbortError"));
+      }
+      pending.clear();
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "vitest";
+import { hash2d, mixSeed } from "./random";
+
+const LARGE_SEEDS = [0x7ffffffe, 0x7fffffff, 0xfffffffe];
+
+/** 16×16 の格子のハッシュ値 */
+function grid(seed: number): number[] {
+  const values: number[] = [];
+  for (let y = 0; y < 16; y++) {
+    for (let x = 0; x < 16; x++) values.push(hash2d(x, y, seed));
+  }
+  return values;
+}
+
+describe("hash2d", () => {
+  test("takes the seed as a 32-bit unsigned integer", () => {
+    for (const seed of [0, 7, ...LARGE_SEEDS]) {
+      expect(grid(seed + 2 ** 32)).toEqual(grid(seed));
+      expect(grid(seed - 2 ** 32)).toEqual(grid(seed));
+    }
+  });
+
+  test("spreads large seeds over the whole range", () => {
+    for (const seed of LARGE_SEEDS) {
+      const values = grid(seed);
+      expect(new Set(values).size).toBe(values.length);
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      expect(mean).toBeGreaterThan(0.4);
+      expect(mean).toBeLessThan(0.6);
+    }
+  });
+
+  test("gives neighbouring seeds different values", () => {
+    for (const seed of [0, ...LARGE_SEEDS]) {
+      expect(grid(seed + 1)).not.toEqual(grid(seed));
+    }
+  });
+});
+
+describe("mixSeed", () => {
+  test("returns a 32-bit unsigned integer", () => {
+    for (const seed of [0, -1, ...LARGE_SEEDS, 2 ** 40]) {
+      const mixed = mixSeed(seed, 104729);
+      expect(Number.isInteger(mixed)).toBe(true);
+      expect(mixed).toBeGreaterThanOrEqual(0);
+      expect(mixed).toBeLessThan(2 ** 32);
+    }
+  });
+});
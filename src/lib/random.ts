@@ -0,0 +1,43 @@
+/**
+ * 決定論的な乱数生成
+ *
+ * 同じシードからは常に同じ値を返すため、
+ * プレビューと書き出しで同一の結果を再現できる。
+ */
+
+/**
+ * 座標+シードの整数ハッシュ → [0, 1)。
+ * 各項は 32bit 整数の乗算で混ぜる（浮動小数点の積は大きなシードで下位の桁が落ちる）。
+ */
+export function hash2d(x: number, y: number, seed: number): number {
+  let h = (Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed >>> 0, 1013904223)) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h = h ^ (h >>> 16);
+  return (h >>> 0) / 4294967296;
+}
+
+/** 2 つのシードを混ぜて派生シードを作る（32bit 符号なし整数） */
+export function mixSeed(seed: number, salt: number): number {
+  let h = (Math.imul((seed >>> 0) ^ 0x9e3779b9, 0x85ebca6b) + (salt >>> 0)) | 0;
+  h = Math.imul(h ^ (h >>> 16), 0xc2b2ae35);
+  return (h ^ (h >>> 13)) >>> 0;
+}
+
+/**
+ * mulberry32 による擬似乱数生成器。
+ * 呼び出すたびに [0, 1) の一様乱数を返す関数を生成する。
+ */
+export function createRng(seed: number): () => number {
+  let s = seed | 0;
+  return () => {
+    s = (s + 0x6d2b79f5) | 0;
+    let t = Math.imul(s ^ (s >>> 15), 1 | s);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** 新しいシード値をランダムに生成する（UI の「振り直し」用） */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "vitest";
+import {
+  moireVisibility,
+  optimizeScreenAngles,
+  screenSeparation,
+  type ScreenSpec,
+} from "./screenAngles";
+
+const CANDIDATES = [45, 15, 75, 0, 30, 60];
+const fallback = (index: number) => index * 10;
+
+/** 全組み合わせのモアレの見えやすさの合計 */
+function totalMoire(screens: ScreenSpec[], angles: number[]): number {
+  let total = 0;
+  for (let i = 0; i < screens.length; i++) {
+    for (let j = 0; j < i; j++) {
+      total += moireVisibility({ ...screens[i], angle: angles[i] }, { ...screens[j], angle: angles[j] });
+    }
+  }
+  return total;
+}
+
+/** 自動割当の版に候補角度の全組み合わせを試した最小の合計 */
+function bruteForceMoire(screens: ScreenSpec[]): number {
+  const auto = screens.map((_, i) => i).filter((i) => screens[i].angle === undefined);
+  let best = Infinity;
+  const angles = screens.map((s, i) => s.angle ?? fallback(i));
+  const visit = (d: number) => {
+    if (d === auto.length) {
+      best = Math.min(best, totalMoire(screens, angles));
+      return;
+    }
+    for (const angle of CANDIDATES) {
+      angles[auto[d]] = angle;
+      visit(d + 1);
+    }
+  };
+  visit(0);
+  return best;
+}
+
+describe("optimizeScreenAngles", () => {
+  test("keeps the darkest inks at least 30° apart", () => {
+    const screens: ScreenSpec[] = [
+      { strength: 0.9, period: 6 },
+      { strength: 0.6, period: 6 },
+      { strength: 0.5, period: 6 },
+      { strength: 0.1, period: 6 },
+    ];
+    const angles = optimizeScreenAngles(screens, fallback);
+    expect(screenSeparation(angles[0], angles[1])).toBeGreaterThanOrEqual(30);
+    expect(screenSeparation(angles[0], angles[2])).toBeGreaterThanOrEqual(30);
+    expect(screenSeparation(angles[1], angles[2])).toBeGreaterThanOrEqual(30);
+  });
+
+  test("keeps fixed angles and gives non-periodic screens the fallback", () => {
+    const screens: ScreenSpec[] = [
+      { angle: 22, strength: 0.8, period: 6 },
+      { strength: 0.7, period: null },
+      { strength: 0.6, period: 6 },
+    ];
+    const angles = optimizeScreenAngles(screens, fallback);
+    expect(angles[0]).toBe(22);
+    expect(angles[1]).toBe(fallback(1));
+    expect(CANDIDATES).toContain(angles[2]);
+  });
+
+  test("finds the least visible assignment", () => {
+    const screens: ScreenSpec[] = [
+      { strength: 0.7, period: 6 },
+      { angle: 45, strength: 0.9, period: 6 },
+      { strength: 0.4, period: 7.5 },
+      { strength: 0.3, period: 6 },
+      { strength: 0.2, period: 9 },
+    ];
+    const angles = optimizeScreenAngles(screens, fallback);
+    expect(totalMoire(screens, angles)).toBeCloseTo(bruteForceMoire(screens), 9);
+  });
+
+  test("assigns many inks in bounded time", () => {
+    const screens: ScreenSpec[] = Array.from({ length: 20 }, (_, i) => ({
+      strength: 1 - i / 20,
+      period: 6 + (i % 3),
+    }));
+    const start = performance.now();
+    const angles = optimizeScreenAngles(screens, fallback);
+    expect(performance.now() - start).toBeLessThan(1000);
+    for (const angle of angles) expect(CANDIDATES).toContain(angle);
+  });
+});
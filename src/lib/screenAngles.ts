@@ -0,0 +1,201 @@
+/**
+ * モアレを抑えるスクリーン角度の自動割当
+ *
+ * 2 つの周期的なスクリーンを重ねると、空間周波数ベクトルの差に当たる
+ * 低い周波数の干渉縞（モアレ）が現れる。正方格子は 90° ごとに同じ形になるため、
+ * 角度差は 0–45° に畳んで評価する。角度差が 30° 前後あれば干渉縞は網点と同程度に細かく、
+ * ほとんど目立たない。濃いインク同士ほど縞のコントラストが強いため、
+ * 濃いインクから順に離れた角度を取り、黄色のような淡いインクに残りの近い角度を回す。
+ */
+
+import { luminance, type RGB } from "./color";
+
+/** 角度の候補（優先順）。目が最も鈍感な 45° を最初に、次に 45° から 30° 離れた角度を試す */
+const CANDIDATE_ANGLES = [45, 15, 75, 0, 30, 60];
+
+/**
+ * 分枝限定法で全組み合わせを探す自動割当のインク数の上限。
+ * 探索は候補数のインク数乗で増えるため、これを超える淡いインクは 1 色ずつ貪欲に割り当てる
+ */
+const MAX_EXHAUSTIVE_INKS = 6;
+
+/** 干渉縞の周波数（スクリーン周波数比）に対する見えやすさの減衰幅 */
+const MOIRE_FALLOFF = 0.15;
+
+/** 角度割当の対象となる 1 色分のスクリーン */
+export interface ScreenSpec {
+  /** 指定済みの角度（度）。省略時は自動割当 */
+  angle?: number;
+  /** 網点のコントラスト (0–1)。紙色に対してインクがどれだけ暗いか */
+  strength: number;
+  /** スクリーンの周期 (px)。周期的でないスクリーン（FM・誤差拡散など）は null */
+  period: number | null;
+}
+
+/** 1 色分の角度割当の結果 */
+export interface InkAngleReport {
+  /** 実効スクリーン角度（度） */
+  angle: number;
+  /** 自動で割り当てた角度か */
+  auto: boolean;
+  /** 網点のコントラスト (0–1) */
+  strength: number;
+  /** 他の周期的なスクリーンとの最小の角度差（0–45°）。比較相手がいなければ null */
+  separation: number | null;
+  /** 最も目立つ組み合わせのモアレの見えやすさ (0–1) */
+  moire: number;
+  /** その組み合わせの相手のインク番号。なければ null */
+  conflictWith: number | null;
+}
+
+export interface ScreenAngleReport {
+  inks: InkAngleReport[];
+  /** 全組み合わせで最大のモアレの見えやすさ (0–1) */
+  maxMoire: number;
+}
+
+/** 紙色に対するインクの暗さ（網点の見えやすさ）を 0–1 で返す */
+export function inkStrength(ink: RGB, paper: RGB): number {
+  const paperLum = luminance(paper.r, paper.g, paper.b);
+  if (paperLum <= 0) return 0;
+  const inkLum = luminance(ink.r, ink.g, ink.b);
+  return Math.max(0, Math.min(1, (paperLum - inkLum) / paperLum));
+}
+
+/** 正方格子どうしの角度差を 0–45° に畳む */
+export function screenSeparation(a: number, b: number): number {
+  const diff = (((a - b) % 90) + 90) % 90;
+  return Math.min(diff, 90 - diff);
+}
+
+/**
+ * 2 つのスクリーンを重ねたときのモアレの見えやすさ (0–1) を見積もる。
+ * 干渉縞の周波数 |f₁ − f₂| を細かい方のスクリーン周波数で割った比が小さいほど縞が粗く目立つ。
+ * 縞のコントラストは両インクのコントラストの積とする。
+ */
+export function moireVisibility(a: ScreenSpec & { angle: number }, b: ScreenSpec & { angle: number }): number {
+  if (a.period === null || b.period === null) return 0;
+  const fa = 1 / a.period;
+  const fb = 1 / b.period;
+  const theta = (screenSeparation(a.angle, b.angle) * Math.PI) / 180;
+  const beat = Math.sqrt(Math.max(0, fa * fa + fb * fb - 2 * fa * fb * Math.cos(theta)));
+  return a.strength * b.strength * Math.exp(-beat / Math.max(fa, fb) / MOIRE_FALLOFF);
+}
+
+/**
+ * 角度が指定されていない周期的なスクリーンに、モアレが最も目立たない角度を割り当てる。
+ * 全組み合わせの見えやすさの合計が最小になる割当を分枝限定法で探す。
+ * 濃いインクから順に優先順の候補を試すため、同点なら濃いインクほど目立たない角度を取る。
+ * 濃い方から MAX_EXHAUSTIVE_INKS 色を超える分は、それまでの割当との見えやすさの合計が
+ * 最小になる候補を濃い順に 1 色ずつ選ぶ。
+ * 周期的でないスクリーンで角度が未指定のものは fallback(index) の角度にする。
+ */
+export function optimizeScreenAngles(
+  screens: ScreenSpec[],
+  fallback: (index: number) => number
+): number[] {
+  const angles = screens.map((s, i) => s.angle ?? fallback(i));
+  const auto = screens
+    .map((_, i) => i)
+    .filter((i) => screens[i].angle === undefined && screens[i].period !== null)
+    .sort((a, b) => screens[b].strength - screens[a].strength || a - b);
+  const fixed = screens.map((_, i) => i).filter((i) => screens[i].angle !== undefined);
+  const n = auto.length;
+  const k = CANDIDATE_ANGLES.length;
+  const visibility = (a: number, angleA: number, b: number, angleB: number) =>
+    moireVisibility({ ...screens[a], angle: angleA }, { ...screens[b], angle: angleB });
+
+  // 探索中は表引きだけで済むよう、候補角度ごとの見えやすさを前計算する
+  // fixedCost[d * k + c]: auto[d] を候補 c にしたときの、角度指定済みの版との合計
+  const fixedCost = new Float64Array(auto.length * k);
+  // pairCost[((d * n + e) * k + c) * k + c2]: auto[d] = 候補 c、auto[e] = 候補 c2 のときの見えやすさ
+  const pairCost = new Float64Array(n * n * k * k);
+  auto.forEach((index, d) => {
+    CANDIDATE_ANGLES.forEach((angle, c) => {
+      for (const other of fixed) fixedCost[d * k + c] += visibility(index, angle, other, angles[other]);
+      for (let e = 0; e < d; e++) {
+        CANDIDATE_ANGLES.forEach((angle2, c2) => {
+          pairCost[((d * n + e) * k + c) * k + c2] = visibility(index, angle, auto[e], angle2);
+        });
+      }
+    });
+  });
+
+  // auto[depth] を候補 c にしたときの、角度指定済みの版と auto[0..depth) との見えやすさの合計
+  const choice = new Int32Array(n);
+  const stepCost = (depth: number, c: number) => {
+    let cost = fixedCost[depth * k + c];
+    for (let e = 0; e < depth; e++) {
+      cost += pairCost[((depth * n + e) * k + c) * k + choice[e]];
+    }
+    return cost;
+  };
+
+  const exhaustive = Math.min(n, MAX_EXHAUSTIVE_INKS);
+  let best = Array.from(choice);
+  let bestCost = Infinity;
+  const search = (depth: number, total: number) => {
+    // 見えやすさは足すほど増えるため、途中で最良を超えた枝は打ち切る
+    if (total >= bestCost - 1e-9) return;
+    if (depth === exhaustive) {
+      best = Array.from(choice);
+      bestCost = total;
+      return;
+    }
+    for (let c = 0; c < k; c++) {
+      const cost = stepCost(depth, c);
+      choice[depth] = c;
+      search(depth + 1, total + cost);
+    }
+  };
+  search(0, 0);
+
+  // 残りの淡いインクは、決まった割当に対して最も目立たない候補を順に選ぶ
+  choice.set(best);
+  for (let d = exhaustive; d < n; d++) {
+    let bestStep = Infinity;
+    for (let c = 0; c < k; c++) {
+      const cost = stepCost(d, c);
+      if (cost < bestStep - 1e-9) {
+        bestStep = cost;
+        choice[d] = c;
+      }
+    }
+  }
+  best = Array.from(choice);
+
+  auto.forEach((index, d) => {
+    angles[index] = CANDIDATE_ANGLES[best[d]];
+  });
+  return angles;
+}
+
+/** 割り当てた角度でのモアレの見えやすさを色ごとにまとめる（UI 表示用） */
+export function reportScreenAngles(screens: ScreenSpec[], angles: number[]): ScreenAngleReport {
+  let maxMoire = 0;
+  const inks = screens.map((screen, i): InkAngleReport => {
+    let separation: number | null = null;
+    let moire = 0;
+    let conflictWith: number | null = null;
+    screens.forEach((other, j) => {
+      if (j === i || screen.period === null || other.period === null) return;
+      const sep = screenSeparation(angles[i], angles[j]);
+      separation = separation === null ? sep : Math.min(separation, sep);
+      const v = moireVisibility({ ...screen, angle: angles[i] }, { ...other, angle: angles[j] });
+      if (conflictWith === null || v > moire) {
+        moire = v;
+        conflictWith = j;
+      }
+    });
+    maxMoire = Math.max(maxMoire, moire);
+    return {
+      angle: angles[i],
+      auto: screen.angle === undefined,
+      strength: screen.strength,
+      separation,
+      moire,
+      conflictWith,
+    };
+  });
+  return { inks, maxMoire };
+}
@@ -5,11 +5,62 @@
  * ハーフトーン処理を施して合成する。
  */
 
-import { hexToRgb, type RGB } from "./color";
-import { applyHalftone, type HalftoneMode } from "./halftone";
-
-export type { HalftoneMode };
-export type ColorMode = "natural" | "bold";
+import { hexToRgb, luminance, type RGB } from "./color";
+import { DEFAULT_LUT_SIZE, decomposeColors, type DecomposeMethod, type LutLoader } from "./decompose";
+import {
+  applyHalftone,
+  halftoneReach,
+  resolveRegion,
+  type DiffusionKernel,
+  type DotShape,
+  type FMNoise,
+  type HalftoneMode,
+  type HalftoneOptions,
+  type HalftonePattern,
+  type ImageRegion,
+  type OrderedMatrix,
+} from "./halftone";
+import { BLUE_NOISE_SIZE } from "./bluenoise";
+import { applyDotGain, compensateDotGain, dotGainReach, type PaperStock } from "./dotgain";
+import {
+  inkFilm,
+  printCurves,
+  samplePrintCurve,
+  type InkOpacityClass,
+  type MixingModel,
+} from "./kubelkaMunk";
+import { rulingCellSize, type ScreenRuling } from "./output";
+import { trapMaps } from "./trapping";
+import { createRng, hash2d, mixSeed } from "./random";
+import {
+  inkStrength,
+  optimizeScreenAngles,
+  reportScreenAngles,
+  type InkAngleReport,
+  type ScreenAngleReport,
+  type ScreenSpec,
+} from "./screenAngles";
+
+export type {
+  DecomposeMethod,
+  DiffusionKernel,
+  DotShape,
+  FMNoise,
+  HalftoneMode,
+  HalftonePattern,
+  ImageRegion,
+  InkAngleReport,
+  InkOpacityClass,
+  MixingModel,
+  OrderedMatrix,
+  PaperStock,
+  ScreenAngleReport,
+  ScreenRuling,
+};
+export type ColorMode = "natural" | "bold" | "perceptual";
+
+/** 先に刷った版への重ね方。"overprint" = 上に重ねる、"knockout" = 先の版を抜いてから刷る */
+export type OverprintMode = "overprint" | "knockout";
 
 /** ImageData 互換の軽量インターフェース（Web Worker でも使える） */
 export interface ImageDataLike {
@@ -23,43 +74,121 @@ export interface StencilColor {
   name: string;
   /** hex カラーコード (#RRGGBB) */
   color: string;
-  /** ハーフトーンスクリーン角度（度）。省略時は自動割当 */
+  /** ハーフトーンスクリーン角度（度）。省略時はモアレが目立たない角度を自動割当 */
   angle?: number;
+  /** この版のドットサイズ。省略時は StencilOptions.dotSize */
+  dotSize?: number;
+  /** この版の濃度スケール。省略時は StencilOptions.density */
+  density?: number;
+  /** この版のインク不透明度。省略時は StencilOptions.inkOpacity */
+  inkOpacity?: number;
+  /** この版のハーフトーンモード。省略時は StencilOptions.halftoneMode */
+  halftoneMode?: HalftoneMode;
+  /** この版の版ずれ量。省略時は StencilOptions.misregistration */
+  misregistration?: number;
+  /** インクの不透明度の分類（mixingModel が "kubelka-munk" のときに使う）。デフォルト: "transparent" */
+  opacityClass?: InkOpacityClass;
+  /** 先に刷った版への重ね方。デフォルト: "overprint" */
+  overprint?: OverprintMode;
+}
+
+/** 版ごとの上書きを反映した、1 色分の実効設定 */
+export interface InkSettings {
+  angle: number;
+  dotSize: number;
+  density: number;
+  inkOpacity: number;
+  halftoneMode: HalftoneMode;
+  misregistration: number;
 }
 
 export interface StencilOptions {
   /** スポットカラーの配列 */
   colors: StencilColor[];
-  /** ハーフトーンのドットサイズ (px) */
+  /** 刷り順（colors のインデックスの並び）。省略したインクはパレット順で後ろに刷る */
+  printOrder?: number[];
+  /** ハーフトーンのドットサイズ (px)。screenRuling を指定した場合は線数から求めた値が優先される */
   dotSize: number;
   /** 版ずれのピクセル量 */
   misregistration: number;
+  /** トラッピング幅 (px)。明るい版を暗い版の下へ広げ、版ずれの隙間を防ぐ。デフォルト: 0 */
+  trap?: number;
   /** グレイン（ノイズ）の強度 0-1 */
   grain: number;
   /** 濃度スケール (0.5–2.0)。デフォルト: 1 */
   density?: number;
-  /** インクの不透明度 (0–1)。デフォルト: 0.85。1=完全不透明(source-over)、0=完全透明(multiply) */
+  /**
+   * インクの不透明度 (0–1)。デフォルト: 0.85。網点の被覆率に掛けて、インクが下地に効く割合を決める
+   * （0 でインクなし）。下地の隠し方は mixingModel とインクの opacityClass で決まる
+   */
   inkOpacity?: number;
+  /**
+   * インクの重ね方のモデル（色分解と合成の両方に適用）。デフォルト: "multiply"。
+   * "multiply" = インク同士は sRGB 値を透過率として被覆率 × inkOpacity の割合で掛け合わせ、
+   * 紙色はインクに覆われていない割合だけ見せる。
+   * "kubelka-munk" = インク膜の吸収と散乱で刷り上がりをリニア光で求めて sRGB に戻し、
+   * 下地の sRGB 値と被覆率 × inkOpacity で按分する。透明インクでも重なりの色は乗算と一致しない
+   */
+  mixingModel?: MixingModel;
   /** 紙の色 (hex)。省略時はデフォルトのクリーム色 */
   paperColor?: string;
-  /** ハーフトーンモード。"am" = ドットサイズ変化、"fm" = ドット密度変化 */
+  /** 紙の種類。合成時にインクのにじみ（ドットゲイン）をシミュレートする。デフォルト: "none" */
+  paperStock?: PaperStock;
+  /** paperStock のドットゲインを見込んで、ハーフトーン前の濃度を逆補正する。デフォルト: false */
+  compensateDotGain?: boolean;
+  /** ハーフトーンモード。"am" = ドットサイズ変化、"fm" = ドット密度変化、"diffusion" = 誤差拡散 */
   halftoneMode?: HalftoneMode;
-  /** 色分解モード。"natural" = 忠実な再現、"bold" = 大胆な色分離 */
+  /** AM のドット形状（halftoneMode が "am" の版に適用）。デフォルト: "round" */
+  dotShape?: DotShape;
+  /** ハイブリッドの最小ドット径（halftoneMode が "hybrid" の版に適用）。デフォルト: 1 */
+  minDotSize?: number;
+  /** ベタのしきい値 (0–1)（halftoneMode が "solid" の版に適用）。デフォルト: 0.5 */
+  solidThreshold?: number;
+  /** 階調のチントの段数（halftoneMode が "levels" の版に適用）。デフォルト: 3 */
+  tintLevels?: number;
+  /** FM のしきい値（halftoneMode が "fm" の版に適用）。"blue" でブルーノイズスクリーンになる。デフォルト: "white" */
+  fmNoise?: FMNoise;
+  /** 誤差拡散のカーネル（halftoneMode が "diffusion" の版に適用）。デフォルト: "floyd-steinberg" */
+  diffusionKernel?: DiffusionKernel;
+  /** 誤差拡散のサーペンタイン走査。デフォルト: true */
+  serpentine?: boolean;
+  /** 組織的ディザのしきい値行列（halftoneMode が "ordered" の版に適用）。デフォルト: "bayer8" */
+  orderedMatrix?: OrderedMatrix;
+  /** orderedMatrix が "custom" のときのしきい値行列 */
+  thresholdMatrix?: number[][];
+  /** パターンのしきい値タイル（halftoneMode が "pattern" の版に適用） */
+  pattern?: HalftonePattern;
+  /**
+   * 色分解モード。"natural" = 忠実な再現、"bold" = 大胆な色分離、
+   * "perceptual" = 刷り上がりの色差 (CIELAB) が最小になる分解
+   */
   colorMode?: ColorMode;
+  /** 色分解の方式。"lut" = 3D LUT による高速近似、"exact" = ピクセルごとの NNLS（検証用）。デフォルト: "lut" */
+  decomposeMethod?: DecomposeMethod;
   /** 印刷の掠れノイズ (0–0.5)。各色レイヤーにランダムな欠けを生成。デフォルト: 0 */
   noise?: number;
   /** 背景を透明にする。インク部分のみ残る */
   transparentBg?: boolean;
   /** 入力画像の階調を反転する。暗い紙に明るいインクで刷るときに使用 */
   invert?: boolean;
-}
-
-/** 掠れノイズ用ハッシュ（セル座標+シード → [0,1)） */
-function scuffHash(x: number, y: number, seed: number): number {
-  let h = (x * 374761393 + y * 668265263 + seed * 1013904223) | 0;
-  h = Math.imul(h ^ (h >>> 13), 1274126177);
-  h = h ^ (h >>> 16);
-  return (h >>> 0) / 4294967296;
+  /**
+   * 長さ系パラメータ (dotSize, misregistration, 掠れ・グレインのスケール) の基準となる画像幅 (px)。
+   * 指定すると実際の幅との比で各パラメータを換算し、解像度を変えても同じ見た目の印刷になる。
+   * 省略時は 1 単位 = 1px
+   */
+  referenceWidth?: number;
+  /**
+   * スクリーン線数と印刷幅。指定するとセルサイズを 1/lpi インチ相当にし、dotSize を上書きする。
+   * 単位の換算に referenceWidth を使うため、referenceWidth がなければ無視する
+   */
+  screenRuling?: ScreenRuling;
+  /**
+   * ソースが大きな画像の一部（タイル）の場合の位置。
+   * 格子・乱数・版ずれを全体画像の座標で計算し、タイル分割しても同じ結果になる
+   */
+  region?: ImageRegion;
+  /** 乱数シード。グレイン・版ずれ・掠れ・FM ドット配置を決定する。同じシードなら同じ結果になる。デフォルト: 0 */
+  seed?: number;
 }
 
 /** バイリニア補間付きスムースノイズ (0–1) */
@@ -69,10 +198,10 @@ function smoothNoise(x: number, y: number, cellSize: number, seed: number): numb
   const fx = x / cellSize - gx;
   const fy = y / cellSize - gy;
 
-  const n00 = scuffHash(gx, gy, seed);
-  const n10 = scuffHash(gx + 1, gy, seed);
-  const n01 = scuffHash(gx, gy + 1, seed);
-  const n11 = scuffHash(gx + 1, gy + 1, seed);
+  const n00 = hash2d(gx, gy, seed);
+  const n10 = hash2d(gx + 1, gy, seed);
+  const n01 = hash2d(gx, gy + 1, seed);
+  const n11 = hash2d(gx + 1, gy + 1, seed);
 
   // smoothstep 補間
   const sx = fx * fx * (3 - 2 * fx);
@@ -82,111 +211,11 @@ function smoothNoise(x: number, y: number, cellSize: number, seed: number): numb
          (n01 * (1 - sx) + n11 * sx) * sy;
 }
 
-/** 色ごとのデフォルトスクリーン角度 */
+/** 周期的でないスクリーン（FM・誤差拡散など）の色ごとのデフォルト角度 */
 const DEFAULT_ANGLES = [15, 75, 0, 45, 30, 60, 90, 105];
 
 /** デフォルトの紙の色 (RGB 0-255) */
-const DEFAULT_PAPER: RGB = { r: 245, g: 240, b: 232 };
-
-/**
- * 非負最小二乗法 (NNLS) による色分解。
- *
- * 各ピクセルの色を「紙色からの差分（＝インクが吸収すべき量）」として捉え、
- * 各インク色の吸収ベクトルの非負線形結合で近似する。
- *
- *   target ≈ Σ d_i × inkDelta_i   (d_i ≥ 0)
- *
- * 座標降下法で解くため色数が何色でも自動的に対応し、
- * 各インクの色相に応じた濃度マップが生成される。
- */
-function decomposeColors(
-  imageData: ImageDataLike,
-  inkRgbs: RGB[],
-  paper: RGB
-): Float32Array[] {
-  const { data, width, height } = imageData;
-  const n = inkRgbs.length;
-  const pixelCount = width * height;
-
-  // 各インクの「吸収ベクトル」: (paper - ink) / 255
-  const inkDeltas: [number, number, number][] = inkRgbs.map((ink) => [
-    (paper.r - ink.r) / 255,
-    (paper.g - ink.g) / 255,
-    (paper.b - ink.b) / 255,
-  ]);
-
-  // 事前計算: 各インクペアのドット積
-  const dotInkInk = new Float64Array(n * n);
-  for (let i = 0; i < n; i++) {
-    for (let j = i; j < n; j++) {
-      const dot =
-        inkDeltas[i][0] * inkDeltas[j][0] +
-        inkDeltas[i][1] * inkDeltas[j][1] +
-        inkDeltas[i][2] * inkDeltas[j][2];
-      dotInkInk[i * n + j] = dot;
-      dotInkInk[j * n + i] = dot;
-    }
-  }
-
-  // 出力: 各色の濃度マップ
-  const maps = inkRgbs.map(() => new Float32Array(pixelCount));
-
-  const MAX_ITER = 12;
-  const densities = new Float64Array(n);
-
-  for (let p = 0; p < pixelCount; p++) {
-    const off = p * 4;
-    const alpha = data[off + 3] / 255;
-    if (alpha < 0.01) {
-      for (let i = 0; i < n; i++) maps[i][p] = 0;
-      continue;
-    }
-
-    // target = (paper - pixel) / 255 × alpha
-    const tr = ((paper.r - data[off]) / 255) * alpha;
-    const tg = ((paper.g - data[off + 1]) / 255) * alpha;
-    const tb = ((paper.b - data[off + 2]) / 255) * alpha;
-
-    // 各インクと target のドット積
-    const dotInkTarget = new Float64Array(n);
-    for (let i = 0; i < n; i++) {
-      dotInkTarget[i] =
-        inkDeltas[i][0] * tr +
-        inkDeltas[i][1] * tg +
-        inkDeltas[i][2] * tb;
-    }
-
-    // 初期値: 単純射影
-    for (let i = 0; i < n; i++) {
-      const selfDot = dotInkInk[i * n + i];
-      densities[i] =
-        selfDot > 1e-10
-          ? Math.max(0, Math.min(1, dotInkTarget[i] / selfDot))
-          : 0;
-    }
-
-    // 座標降下法で反復改善
-    for (let iter = 0; iter < MAX_ITER; iter++) {
-      for (let i = 0; i < n; i++) {
-        let numerator = dotInkTarget[i];
-        for (let j = 0; j < n; j++) {
-          if (j !== i) numerator -= densities[j] * dotInkInk[i * n + j];
-        }
-        const selfDot = dotInkInk[i * n + i];
-        densities[i] =
-          selfDot > 1e-10
-            ? Math.max(0, Math.min(1, numerator / selfDot))
-            : 0;
-      }
-    }
-
-    for (let i = 0; i < n; i++) {
-      maps[i][p] = densities[i];
-    }
-  }
-
-  return maps;
-}
+export const DEFAULT_PAPER: RGB = { r: 245, g: 240, b: 232 };
 
 /**
  * Bold モード: NNLS 密度マップを後処理し、大胆な色分離を実現する。
@@ -230,18 +259,229 @@ function applyBoldTransform(maps: Float32Array[], pixelCount: number): void {
   }
 }
 
+/** 1 色分の版（ハーフトーン適用済みのインク被覆マップ） */
+export interface StencilPlate {
+  /** インク名 (StencilColor.name) */
+  name: string;
+  /** インクの hex カラーコード */
+  color: string;
+  /** インク被覆率 (0–1)。ハーフトーンと掠れノイズを適用済み */
+  map: Float32Array;
+  /** インクの不透明度 (0–1) */
+  inkOpacity: number;
+  /** インクの不透明度の分類（Kubelka–Munk モデル用） */
+  opacityClass: InkOpacityClass;
+  /** 先に刷った版への重ね方 */
+  overprint: OverprintMode;
+  /** 版ずれオフセット (px) */
+  offsetX: number;
+  offsetY: number;
+}
+
+/** 1 単位あたりのピクセル数（基準幅に対する出力幅の比） */
+export function resolveUnit(width: number, referenceWidth?: number): number {
+  return referenceWidth ? width / referenceWidth : 1;
+}
+
+/** 網点が AM のセル（dotSize + 2 単位）で格子状に並ぶ（モアレの原因になる）ハーフトーンモード */
+const PERIODIC_MODES: ReadonlySet<HalftoneMode> = new Set(["am", "hybrid", "pattern"]);
+
+/**
+ * 版の実効ドットサイズ。版ごとの指定、線数から求めた値、全体の dotSize の順に使う。
+ * 線数からは AM 系のモードではセル (dotSize + 2) が、それ以外ではドット間隔 (dotSize) が
+ * 1/lpi インチになるよう求める。AM 系のモードはセルの大きさだけを使うため、
+ * セルが余白の 2 単位より細かい線数では負の値になる。
+ */
+function inkDotSize(options: StencilOptions, color: StencilColor, mode: HalftoneMode): number {
+  if (color.dotSize !== undefined) return color.dotSize;
+  const { screenRuling, referenceWidth } = options;
+  if (!screenRuling || !referenceWidth) return options.dotSize;
+  const cell = rulingCellSize(screenRuling, referenceWidth);
+  return PERIODIC_MODES.has(mode) ? cell - 2 : cell;
+}
+
+/** 版の実効ハーフトーンモード。版ごとの指定、全体の指定の順に使う */
+function inkHalftoneMode(options: StencilOptions, color: StencilColor): HalftoneMode {
+  return color.halftoneMode ?? options.halftoneMode ?? "am";
+}
+
+/** 角度割当に使う各版のスクリーンの特性 */
+function screenSpecs(options: StencilOptions): ScreenSpec[] {
+  const paper = options.paperColor ? hexToRgb(options.paperColor) : DEFAULT_PAPER;
+  return options.colors.map((color) => {
+    const mode = inkHalftoneMode(options, color);
+    return {
+      angle: color.angle,
+      strength: inkStrength(hexToRgb(color.color), paper),
+      period: PERIODIC_MODES.has(mode) ? inkDotSize(options, color, mode) + 2 : null,
+    };
+  });
+}
+
+const defaultAngle = (index: number) => DEFAULT_ANGLES[index % DEFAULT_ANGLES.length];
+
+/**
+ * 全版の実効スクリーン角度を返す。
+ * 角度が未指定の周期的なスクリーンには、インクの濃さを考慮してモアレが目立たない角度を割り当てる。
+ * 全版の組み合わせを探索するため、版ごとに呼ばず結果を resolveInkSettings などへ渡す。
+ */
+export function resolveScreenAngles(options: StencilOptions): number[] {
+  return optimizeScreenAngles(screenSpecs(options), defaultAngle);
+}
+
+/** 角度割当の入力を表すキー。同じキーなら resolveScreenAngles の結果も同じ（キャッシュ用） */
+export function screenAnglesKey(options: StencilOptions): string {
+  return JSON.stringify(screenSpecs(options));
+}
+
+/** 各版の角度と、他の版とのモアレの見えやすさの見積もり（UI 表示用） */
+export function screenAngleReport(
+  options: StencilOptions,
+  angles = resolveScreenAngles(options)
+): ScreenAngleReport {
+  return reportScreenAngles(screenSpecs(options), angles);
+}
+
+/**
+ * 刷り順（colors のインデックスの並び）を返す。
+ * printOrder の範囲外・重複した番号は無視し、含まれないインクはパレット順で後ろに足す。
+ */
+export function resolvePrintOrder(options: Pick<StencilOptions, "colors" | "printOrder">): number[] {
+  const count = options.colors.length;
+  const order: number[] = [];
+  const used = new Set<number>();
+  for (const index of [...(options.printOrder ?? []), ...options.colors.keys()]) {
+    if (!Number.isInteger(index) || index < 0 || index >= count || used.has(index)) continue;
+    used.add(index);
+    order.push(index);
+  }
+  return order;
+}
+
 /**
- * DOM 非依存のステンシル印刷処理。
- * ソースのピクセルデータを受け取り、加工済みのピクセル配列を返す。
- * Web Worker からも呼び出し可能。
+ * ノックアウトの版を刷る部分を、それより先に刷る版から抜く。
+ * 版は製版の時点で抜くため、版ずれがあると抜いた部分に紙が見える。
+ * plates は colors と同じ並びで、入力の版は変更しない。
  */
-export function computeStencil(
-  sourceData: ImageDataLike,
+export function knockoutPlates(plates: StencilPlate[], order: number[]): StencilPlate[] {
+  const out = plates.slice();
+  order.forEach((ci, k) => {
+    if (plates[ci].overprint !== "knockout") return;
+    const cover = plates[ci].map;
+    for (const earlier of order.slice(0, k)) {
+      const map = out[earlier].map.slice();
+      for (let i = 0; i < map.length; i++) map[i] *= 1 - cover[i];
+      out[earlier] = { ...out[earlier], map };
+    }
+  });
+  return out;
+}
+
+/**
+ * トラッピングを適用する。明るいインクの版を、暗いインクの版が刷られる部分へ trap の幅だけ広げる。
+ * plates は colors と同じ並びで、入力の版は変更しない。
+ */
+export function trapPlates(
+  plates: StencilPlate[],
+  width: number,
+  height: number,
   options: StencilOptions
-): Uint8ClampedArray {
-  const { colors, dotSize, misregistration, grain, density, inkOpacity = 0.85, paperColor, halftoneMode, colorMode, noise = 0, transparentBg = false, invert = false } = options;
+): StencilPlate[] {
+  const region = resolveRegion(width, height, options.region);
+  const radius = (options.trap ?? 0) * resolveUnit(region.fullWidth, options.referenceWidth);
+  if (radius < 0.5) return plates;
+  const lightness = plates.map((p) => {
+    const { r, g, b } = hexToRgb(p.color);
+    return luminance(r, g, b);
+  });
+  const maps = trapMaps(plates.map((p) => p.map), lightness, width, height, radius);
+  return plates.map((p, i) => (maps[i] === p.map ? p : { ...p, map: maps[i] }));
+}
+
+/**
+ * 版ごとの上書きを StencilOptions の値で補完した実効設定を返す。
+ * angles は resolveScreenAngles の結果。省略すると角度が未指定の版ではその場で求める。
+ */
+export function resolveInkSettings(options: StencilOptions, index: number, angles?: number[]): InkSettings {
+  const color = options.colors[index];
+  const halftoneMode = inkHalftoneMode(options, color);
+  return {
+    angle: color.angle ?? (angles ?? resolveScreenAngles(options))[index],
+    dotSize: inkDotSize(options, color, halftoneMode),
+    density: color.density ?? options.density ?? 1,
+    inkOpacity: color.inkOpacity ?? options.inkOpacity ?? 0.85,
+    halftoneMode,
+    misregistration: color.misregistration ?? options.misregistration,
+  };
+}
+
+/** 全版の実効設定を返す（角度割当は 1 回だけ求める） */
+export function resolveAllInkSettings(
+  options: StencilOptions,
+  angles = resolveScreenAngles(options)
+): InkSettings[] {
+  return options.colors.map((_, ci) => resolveInkSettings(options, ci, angles));
+}
+
+/**
+ * 各版の版ずれオフセット (px) をシードから決定論的に求める。
+ * 書き出し形式によらず同じシードなら同じずれ方になる。
+ * 乱数は版ごとに常に 2 つ消費するため、ある版の量を変えても他の版のずれ方は変わらない。
+ */
+export function misregistrationOffsets(
+  amounts: number[],
+  unit: number,
+  seed: number
+): { x: number; y: number }[] {
+  const rng = createRng(seed);
+  return amounts.map((amount) => {
+    const rx = rng();
+    const ry = rng();
+    return amount > 0
+      ? {
+          x: Math.round((rx - 0.5) * 2 * amount * unit),
+          y: Math.round((ry - 0.5) * 2 * amount * unit),
+        }
+      : { x: 0, y: 0 };
+  });
+}
+
+/**
+ * タイル分割に必要なのりしろ (px)。
+ * 網点の参照範囲と版ずれの最大量を足したもの。
+ * タイル単位で処理できない設定では Infinity を返す。
+ */
+export function tileMargin(options: StencilOptions, fullWidth: number): number {
+  const unit = resolveUnit(fullWidth, options.referenceWidth);
+  let margin = 0;
+  for (const ink of resolveAllInkSettings(options)) {
+    const reach = halftoneReach({
+      dotSize: ink.dotSize,
+      angle: ink.angle,
+      mode: ink.halftoneMode,
+      pixelScale: unit,
+    });
+    margin = Math.max(margin, reach + Math.max(0, ink.misregistration) * unit);
+  }
+  // トラッピングの広げ幅と、合成時のにじみ（ドットゲイン）のぼかし幅
+  margin += Math.round(Math.max(0, options.trap ?? 0) * unit);
+  margin += dotGainReach(options.paperStock ?? "none", unit);
+  return Math.ceil(margin) + 2;
+}
+
+/**
+ * [ステージ 1: 色分解] ソース画像を各インクの濃度マップ (0–1) に分解する。
+ * 階調反転・低吸収インクの輝度ベース処理を含む。
+ */
+export function decomposeSource(
+  sourceData: ImageDataLike,
+  options: StencilOptions,
+  loadLut?: LutLoader
+): Float32Array[] {
+  const {
+    colors, invert = false, decomposeMethod = "lut", colorMode = "natural", mixingModel = "multiply",
+  } = options;
   const { width, height } = sourceData;
-  const paper = paperColor ? hexToRgb(paperColor) : DEFAULT_PAPER;
 
   // 階調反転: 暗い紙に明るいインクで刷る場合に使用
   let source = sourceData;
@@ -273,17 +513,26 @@ export function computeStencil(
   });
 
   // 色分解に渡すインクから低吸収インクを除外
+  // Kubelka–Munk は重ねる順で刷り上がりが変わるため、刷り順に並べる
   const decompInks: RGB[] = [];
   const decompIndexMap: number[] = []; // decompInks[i] → 元の colors[j]
-  for (let i = 0; i < inkRgbs.length; i++) {
+  const decompOrder = mixingModel === "kubelka-munk" ? resolvePrintOrder(options) : [...inkRgbs.keys()];
+  for (const i of decompOrder) {
     if (!isLowAbsorption[i]) {
       decompIndexMap.push(i);
       decompInks.push(inkRgbs[i]);
     }
   }
 
+  // Kubelka–Munk では合成と同じく散乱を含めたモデルで解く
+  const opacityClasses = mixingModel === "kubelka-munk"
+    ? decompIndexMap.map((i) => colors[i].opacityClass ?? "transparent")
+    : null;
   const decompMaps = decompInks.length > 0
-    ? decomposeColors(source, decompInks, WHITE)
+    ? decomposeColors(
+        source, decompInks, WHITE, decomposeMethod, DEFAULT_LUT_SIZE,
+        colorMode === "perceptual" ? "lab" : "rgb", opacityClasses, loadLut
+      )
     : [];
 
   // 密度マップを組み立て
@@ -307,10 +556,197 @@ export function computeStencil(
     }
   }
 
+  return densityMaps;
+}
+
+/**
+ * [ステージ 2: 階調変換] 色分解モードに応じて濃度マップを変換する。
+ * 入力は変更せず、変換が必要な場合のみ新しい配列を返す。
+ */
+export function applyToneTransform(
+  maps: Float32Array[],
+  pixelCount: number,
+  options: StencilOptions
+): Float32Array[] {
   // Bold モード: 密度マップを後処理して大胆な色分離に
-  if (colorMode === "bold") {
-    applyBoldTransform(densityMaps, width * height);
+  if (options.colorMode === "bold") {
+    const out = maps.map((m) => m.slice());
+    applyBoldTransform(out, pixelCount);
+    return out;
+  }
+  return maps;
+}
+
+/**
+ * ソース画像を各インクの濃度マップ (0–1) に色分解する。
+ * 階調反転・低吸収インクの輝度ベース処理・Bold 変換を含む。
+ */
+export function computeDensityMaps(
+  sourceData: ImageDataLike,
+  options: StencilOptions
+): Float32Array[] {
+  const { width, height } = sourceData;
+  return applyToneTransform(decomposeSource(sourceData, options), width * height, options);
+}
+
+/**
+ * [ステージ 3: ハーフトーン] 1 版分の濃度マップに網点を適用する。
+ * compensateDotGain が有効なら、紙のドットゲインを見込んだ逆補正を先に掛ける。
+ * angles は resolveScreenAngles の結果（省略時はその場で求める）。
+ */
+export function halftonePlate(
+  densityMap: Float32Array,
+  index: number,
+  width: number,
+  height: number,
+  options: StencilOptions,
+  angles?: number[]
+): Float32Array {
+  const {
+    seed = 0, referenceWidth, dotShape, minDotSize, solidThreshold, tintLevels, fmNoise, diffusionKernel, serpentine, orderedMatrix, thresholdMatrix, pattern,
+    paperStock = "none", compensateDotGain: compensate = false,
+  } = options;
+  const ink = resolveInkSettings(options, index, angles);
+  const region = resolveRegion(width, height, options.region);
+  // ブルーノイズの参照位置を版ごとにずらし、版同士でドットが重ならないようにする
+  const offsetRng = createRng(mixSeed(seed, index * 6007 + 13));
+  const textureOffset = {
+    x: Math.floor(offsetRng() * BLUE_NOISE_SIZE),
+    y: Math.floor(offsetRng() * BLUE_NOISE_SIZE),
+  };
+  const halftoneOptions: HalftoneOptions = {
+    dotSize: ink.dotSize,
+    angle: ink.angle,
+    density: ink.density,
+    mode: ink.halftoneMode,
+    dotShape,
+    minDotSize,
+    solidThreshold,
+    tintLevels,
+    fmNoise,
+    textureOffset,
+    diffusionKernel,
+    serpentine,
+    orderedMatrix,
+    thresholdMatrix,
+    pattern,
+    seed,
+    pixelScale: resolveUnit(region.fullWidth, referenceWidth),
+    region,
+  };
+  if (compensate && paperStock !== "none") {
+    // 濃度スケールは補正前に適用済み
+    const compensated = compensateDotGain(densityMap, halftoneOptions, paperStock);
+    return applyHalftone(compensated, width, height, { ...halftoneOptions, density: 1 });
+  }
+  return applyHalftone(densityMap, width, height, halftoneOptions);
+}
+
+/**
+ * [ステージ 4: 掠れノイズ] インクの色乗りムラをシミュレートする。
+ * noise パラメータが大きいほど広域な色ムラが広がる。
+ * 入力は変更せず、ノイズを掛ける場合のみ新しい配列を返す。
+ */
+export function applyScuffNoise(
+  halftoneMap: Float32Array,
+  index: number,
+  width: number,
+  height: number,
+  options: StencilOptions
+): Float32Array {
+  const { noise = 0, seed = 0, referenceWidth } = options;
+  if (noise <= 0) return halftoneMap;
+
+  const color = options.colors[index];
+  const dotSize = inkDotSize(options, color, inkHalftoneMode(options, color));
+  const region = resolveRegion(width, height, options.region);
+  const unit = resolveUnit(region.fullWidth, referenceWidth);
+  const out = halftoneMap.slice();
+  const scuffSeed = mixSeed(seed, index * 7919 + 31);
+  // ノイズレベルに応じてムラのスケールを拡大
+  const baseSize = Math.max(dotSize * 4, 8) * unit;
+  const scuffSize1 = baseSize * (1 + noise * 8);    // 細かいムラ
+  const scuffSize2 = scuffSize1 * 3;                 // 中域のムラ
+  const scuffSize3 = scuffSize2 * 3;                 // 広域のムラ
+  for (let i = 0; i < width * height; i++) {
+    if (out[i] < 0.004) continue;
+    const px = (i % width) + region.x;
+    const py = ((i / width) | 0) + region.y;
+    // 3オクターブのノイズを合成
+    const n1 = smoothNoise(px, py, scuffSize1, scuffSeed);
+    const n2 = smoothNoise(px, py, scuffSize2, scuffSeed + 997);
+    const n3 = smoothNoise(px, py, scuffSize3, scuffSeed + 2003);
+    const n = n1 * 0.3 + n2 * 0.4 + n3 * 0.3;
+    // 全ピクセルに対して色ムラを適用
+    // n=0.5 が平均で、そこからの偏差で減衰量を決定
+    // noise が大きいほど減衰の振れ幅が大きい
+    const deviation = (0.5 - n) * 2;  // -1 〜 +1
+    if (deviation > 0) {
+      // deviation > 0 の領域で色が薄くなる
+      const attenuation = 1 - deviation * noise * 2;
+      out[i] *= Math.max(0, attenuation);
+    }
   }
+  return out;
+}
+
+/**
+ * 色分解・ハーフトーン・掠れノイズを適用し、インクごとの版を生成する。
+ * 版は colors と同じ並びで、ノックアウトの抜きとトラッピングを適用済み。
+ * 版ずれオフセットもここでシードから決定する（合成時に適用）。
+ */
+export function computePlates(
+  sourceData: ImageDataLike,
+  options: StencilOptions
+): StencilPlate[] {
+  const { colors, seed = 0, referenceWidth } = options;
+  const { width, height } = sourceData;
+  const region = resolveRegion(width, height, options.region);
+  const unit = resolveUnit(region.fullWidth, referenceWidth);
+  const angles = resolveScreenAngles(options);
+  const inks = resolveAllInkSettings(options, angles);
+
+  const densityMaps = computeDensityMaps(sourceData, options);
+  const offsets = misregistrationOffsets(inks.map((ink) => ink.misregistration), unit, seed);
+
+  const plates = colors.map((color, ci) => {
+    const halftoneMap = halftonePlate(densityMaps[ci], ci, width, height, options, angles);
+    return {
+      name: color.name,
+      color: color.color,
+      map: applyScuffNoise(halftoneMap, ci, width, height, options),
+      inkOpacity: inks[ci].inkOpacity,
+      opacityClass: color.opacityClass ?? "transparent",
+      overprint: color.overprint ?? "overprint",
+      offsetX: offsets[ci].x,
+      offsetY: offsets[ci].y,
+    };
+  });
+  return trapPlates(knockoutPlates(plates, resolvePrintOrder(options)), width, height, options);
+}
+
+/**
+ * 版を紙の上に刷り重ねた合成結果を返す。
+ * plates は colors と同じ並びで、刷り順 (printOrder) に重ねる。
+ * paperStock に応じて各版にインクのにじみ（ドットゲイン）を掛け、
+ * インク同士は乗算（減法混色）で重ね、最後に紙色へ合成する。
+ * mixingModel が "kubelka-munk" の場合は紙（透明背景なら白）の上にリニア光でインク膜を重ねるため、
+ * 不透明インクは下のインクや暗い紙を隠す。
+ */
+export function compositePlates(
+  plates: StencilPlate[],
+  width: number,
+  height: number,
+  options: StencilOptions
+): Uint8ClampedArray {
+  const {
+    grain, paperColor, paperStock = "none", mixingModel = "multiply", transparentBg = false, seed = 0,
+    referenceWidth,
+  } = options;
+  const region = resolveRegion(width, height, options.region);
+  const unit = resolveUnit(region.fullWidth, referenceWidth);
+  const paper = paperColor ? hexToRgb(paperColor) : DEFAULT_PAPER;
+  const pixelCount = width * height;
 
   // Phase 1: インク同士を乗算（減法混色）で合成するバッファ（白ベース）
   // Phase 2 で紙の色に source-over で合成する
@@ -326,91 +762,73 @@ export function computeStencil(
   // インクカバレッジ蓄積用（アルファ合成で union を取る）
   const alphaMap = new Float32Array(pixelCount);
 
-  // 各色レイヤーを乗算で合成（インク同士の減法混色）
-  for (let ci = 0; ci < colors.length; ci++) {
-    const rgb = inkRgbs[ci];
-    const angle =
-      colors[ci].angle ?? DEFAULT_ANGLES[ci % DEFAULT_ANGLES.length];
-
-    // ハーフトーンの適用
-    const halftoneMap = applyHalftone(densityMaps[ci], width, height, {
-      dotSize,
-      angle,
-      density,
-      mode: halftoneMode,
-    });
+  // Kubelka–Munk: 紙（透明背景なら白）から始めて刷り上がりの色 (0–255) をピクセルごとに蓄積する
+  const curves = mixingModel === "kubelka-munk"
+    ? plates.map((p) => printCurves(inkFilm(hexToRgb(p.color), p.opacityClass)))
+    : null;
+  const printed = curves ? new Float32Array(pixelCount * 3) : null;
+  if (printed) {
+    const base = transparentBg ? [255, 255, 255] : [paper.r, paper.g, paper.b];
+    for (let i = 0; i < pixelCount * 3; i += 3) printed.set(base, i);
+  }
 
-    // 掠れノイズ: インクの色乗りムラをシミュレート
-    // noise パラメータが大きいほど広域な色ムラが広がる
-    if (noise > 0) {
-      const seed = ci * 7919 + 31;
-      // ノイズレベルに応じてムラのスケールを拡大
-      const baseSize = Math.max(dotSize * 4, 8);
-      const scuffSize1 = baseSize * (1 + noise * 8);    // 細かいムラ
-      const scuffSize2 = scuffSize1 * 3;                 // 中域のムラ
-      const scuffSize3 = scuffSize2 * 3;                 // 広域のムラ
-      for (let i = 0; i < width * height; i++) {
-        if (halftoneMap[i] < 0.004) continue;
-        const px = i % width;
-        const py = (i / width) | 0;
-        // 3オクターブのノイズを合成
-        const n1 = smoothNoise(px, py, scuffSize1, seed);
-        const n2 = smoothNoise(px, py, scuffSize2, seed + 997);
-        const n3 = smoothNoise(px, py, scuffSize3, seed + 2003);
-        const n = n1 * 0.3 + n2 * 0.4 + n3 * 0.3;
-        // 全ピクセルに対して色ムラを適用
-        // n=0.5 が平均で、そこからの偏差で減衰量を決定
-        // noise が大きいほど減衰の振れ幅が大きい
-        const deviation = (0.5 - n) * 2;  // -1 〜 +1
-        if (deviation > 0) {
-          // deviation > 0 の領域で色が薄くなる
-          const attenuation = 1 - deviation * noise * 2;
-          halftoneMap[i] *= Math.max(0, attenuation);
-        }
-      }
-    }
+  // 各色レイヤーを乗算で合成（インク同士の減法混色）
+  for (const ci of resolvePrintOrder(options)) {
+    const { inkOpacity, offsetX: ox, offsetY: oy } = plates[ci];
+    // 紙へのにじみ（ドットゲイン）は刷った版そのものに掛ける
+    const halftoneMap = applyDotGain(plates[ci].map, width, height, paperStock, unit);
+    const rgb = hexToRgb(plates[ci].color);
 
-    // 版ずれ（misregistration）オフセット
-    const ox =
-      misregistration > 0
-        ? Math.round((Math.random() - 0.5) * 2 * misregistration)
-        : 0;
-    const oy =
-      misregistration > 0
-        ? Math.round((Math.random() - 0.5) * 2 * misregistration)
-        : 0;
+    // グレインは座標ハッシュで決めるため、描画順に依存しない
+    // 基準解像度の 1px 単位で粒を作り、高解像度でも粒の大きさを保つ
+    const grainSeed = mixSeed(seed, ci * 104729 + 7);
 
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        // 版ずれを考慮したソース座標
+        // 版ずれを考慮したソース座標（範囲判定は全体画像の座標で行う）
         const srcX = x - ox;
         const srcY = y - oy;
+        const globalX = srcX + region.x;
+        const globalY = srcY + region.y;
+        if (globalX < 0 || globalX >= region.fullWidth || globalY < 0 || globalY >= region.fullHeight) continue;
         if (srcX < 0 || srcX >= width || srcY < 0 || srcY >= height) continue;
 
         let opacity = halftoneMap[srcY * width + srcX];
 
         // グレインノイズの追加
         if (grain > 0) {
-          opacity = Math.max(
-            0,
-            Math.min(1, opacity + (Math.random() - 0.5) * grain)
+          const g = hash2d(
+            Math.floor((x + region.x) / unit),
+            Math.floor((y + region.y) / unit),
+            grainSeed
           );
+          opacity = Math.max(0, Math.min(1, opacity + (g - 0.5) * grain));
         }
 
         if (opacity < 0.004) continue;
 
-        // インク合成 (乗算ブレンド — インク同士の減法混色)
         const dstOff = (y * width + x) * 4;
         const a = opacity * inkOpacity;
 
-        // 透過率: 1 - (カバレッジ × 吸収率)
-        const tR = 1 - a * (1 - rgb.r / 255);
-        const tG = 1 - a * (1 - rgb.g / 255);
-        const tB = 1 - a * (1 - rgb.b / 255);
-
-        out[dstOff] = Math.round(out[dstOff] * tR);
-        out[dstOff + 1] = Math.round(out[dstOff + 1] * tG);
-        out[dstOff + 2] = Math.round(out[dstOff + 2] * tB);
+        if (printed) {
+          // インク膜の重なりはリニア光で求め、カバレッジの按分は乗算モデルと同じく sRGB の値で行う
+          // （白紙に 1 色だけなら乗算モデルと同じ色。重なりはリニア光の積なので乗算モデルとは異なる）
+          const pOff = (y * width + x) * 3;
+          for (let c = 0; c < 3; c++) {
+            const bg = printed[pOff + c];
+            printed[pOff + c] = bg + a * (samplePrintCurve(curves![ci][c], bg) - bg);
+          }
+        } else {
+          // インク合成 (乗算ブレンド — インク同士の減法混色)
+          // 透過率: 1 - (カバレッジ × 吸収率)
+          const tR = 1 - a * (1 - rgb.r / 255);
+          const tG = 1 - a * (1 - rgb.g / 255);
+          const tB = 1 - a * (1 - rgb.b / 255);
+
+          out[dstOff] = Math.round(out[dstOff] * tR);
+          out[dstOff + 1] = Math.round(out[dstOff + 1] * tG);
+          out[dstOff + 2] = Math.round(out[dstOff + 2] * tB);
+        }
 
         // カバレッジの union（α合成）
         const pi = y * width + x;
@@ -419,6 +837,14 @@ export function computeStencil(
     }
   }
 
+  if (printed) {
+    for (let i = 0; i < pixelCount; i++) {
+      out[i * 4] = Math.round(printed[i * 3]);
+      out[i * 4 + 1] = Math.round(printed[i * 3 + 1]);
+      out[i * 4 + 2] = Math.round(printed[i * 3 + 2]);
+    }
+  }
+
   // Phase 2: 乗算結果（白紙上のインク混色）を実際の紙色に合成
   // 公式: out = inkBuf + (paper - 255) * (1 - alpha)
   //   - 白紙 (255) の場合: out = inkBuf（乗算結果そのまま）
@@ -446,7 +872,8 @@ export function computeStencil(
     const pG = paper.g - 255;
     const pB = paper.b - 255;
     // 白紙なら pR=pG=pB=0 で乗算結果がそのまま出る（従来と同等）
-    if (pR !== 0 || pG !== 0 || pB !== 0) {
+    // Kubelka–Munk は紙の上に直接刷っているため不要
+    if (!printed && (pR !== 0 || pG !== 0 || pB !== 0)) {
       for (let i = 0; i < pixelCount; i++) {
         const invA = 1 - alphaMap[i];
         if (invA < 0.004) continue; // 完全カバー → 乗算結果のまま
@@ -462,22 +889,24 @@ export function computeStencil(
 }
 
 /**
- * メインのステンシル印刷処理。
- * ソースの ImageData を受け取り、ステンシル印刷風に加工した結果を canvas に描画する。
+ * DOM 非依存のステンシル印刷処理。
+ * ソースのピクセルデータを受け取り、加工済みのピクセル配列を返す。
+ * Web Worker からも呼び出し可能。
  */
-export function processStencil(
-  sourceData: ImageData,
-  canvas: HTMLCanvasElement,
+export function computeStencil(
+  sourceData: ImageDataLike,
   options: StencilOptions
-): void {
+): Uint8ClampedArray {
   const { width, height } = sourceData;
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext("2d")!;
-  const pixels = computeStencil(sourceData, options);
-  const outputData = ctx.createImageData(width, height);
-  outputData.data.set(pixels);
-  ctx.putImageData(outputData, 0, 0);
+  const plates = computePlates(sourceData, options);
+  return compositePlates(plates, width, height, options);
+}
+
+export interface StencilJobOptions {
+  /** 中断シグナル。中断されると AbortError で reject する */
+  signal?: AbortSignal;
+  /** 進捗 (0–1) の通知 */
+  onProgress?: (progress: number) => void;
 }
 
 /**
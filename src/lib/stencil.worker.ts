@@ -1,14 +1,84 @@
-import { computeStencil, type StencilOptions } from "./stencil";
+import {
+  compositePlates,
+  computePlates,
+  computeStencil,
+  resolvePrintOrder,
+  type StencilOptions,
+} from "./stencil";
+import { suggestPalettes, type PaletteSuggestOptions } from "./palette";
+import { plateToGrayscale, type PlateImage } from "./plates";
+import { createSeparationPdf, type PdfLayout } from "./pdf";
+import { createHalftoneSvg } from "./svg";
 
-interface WorkerInput {
+export interface WorkerInput {
+  /**
+   * "composite" = 合成結果、"plates" = 色版ごとのグレースケール画像、
+   * "pdf" = スポットカラー版を含む入稿用 PDF、"svg" = AM 網点のベクター SVG、
+   * "palette" = 画像に合うインクの組み合わせの提案
+   */
+  kind?: "composite" | "plates" | "pdf" | "svg" | "palette";
   data: Uint8ClampedArray;
   width: number;
   height: number;
   options: StencilOptions;
+  /** kind = "pdf" のときのページ設定 */
+  pdf?: PdfLayout;
+  /** kind = "palette" のときの候補のインクと色数 */
+  palette?: PaletteSuggestOptions;
 }
 
-self.onmessage = (e: MessageEvent<WorkerInput>) => {
-  const { data, width, height, options } = e.data;
+export type WorkerResponse<T> =
+  | { type: "result"; value: T }
+  | { type: "error"; message: string };
+
+/** 処理結果と、転送するバッファ */
+interface WorkerResult {
+  value: unknown;
+  transfer?: Transferable[];
+}
+
+async function run(input: WorkerInput): Promise<WorkerResult> {
+  const { kind = "composite", data, width, height, options, pdf, palette } = input;
+  if (kind === "plates") {
+    // 版は刷り順に並べて返す（ファイル名の番号が刷り順になる）
+    const computed = computePlates({ data, width, height }, options);
+    const plates: PlateImage[] = resolvePrintOrder(options).map((ci) => ({
+      name: computed[ci].name,
+      color: computed[ci].color,
+      pixels: plateToGrayscale(computed[ci].map),
+    }));
+    return { value: plates, transfer: plates.map((p) => p.pixels.buffer) };
+  }
+  if (kind === "pdf") {
+    if (!pdf) throw new Error("PDF export requires a page layout");
+    const plates = computePlates({ data, width, height }, options);
+    const composite = compositePlates(plates, width, height, options);
+    const bytes = await createSeparationPdf(
+      { width, height, composite, plates: resolvePrintOrder(options).map((ci) => plates[ci]) },
+      pdf
+    );
+    return { value: bytes, transfer: [bytes.buffer] };
+  }
+  if (kind === "svg") {
+    return { value: createHalftoneSvg({ data, width, height }, options) };
+  }
+  if (kind === "palette") {
+    if (!palette) throw new Error("Palette suggestion requires candidate inks");
+    return { value: suggestPalettes({ data, width, height }, options, palette) };
+  }
   const pixels = computeStencil({ data, width, height }, options);
-  postMessage(pixels, { transfer: [pixels.buffer] });
+  return { value: pixels, transfer: [pixels.buffer] };
+}
+
+// 例外は呼び出し側へ error メッセージとして返し、Promise が確定しないままにならないようにする
+self.onmessage = async (e: MessageEvent<WorkerInput>) => {
+  try {
+    const { value, transfer = [] } = await run(e.data);
+    postMessage({ type: "result", value } satisfies WorkerResponse<unknown>, { transfer });
+  } catch (err) {
+    postMessage({
+      type: "error",
+      message: err instanceof Error ? err.message : String(err),
+    } satisfies WorkerResponse<unknown>);
+  }
 };
@@ -0,0 +1,46 @@
+import { describe, expect, test } from "vitest";
+import { createHalftoneSvg } from "./svg";
+import type { ImageDataLike, StencilOptions } from "./stencil";
+
+const W = 40;
+const H = 30;
+
+/** 中間調のグレー一色の画像 */
+function grey(): ImageDataLike {
+  const data = new Uint8ClampedArray(W * H * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = 128;
+    data[i + 3] = 255;
+  }
+  return { data, width: W, height: H };
+}
+
+const baseOptions: StencilOptions = {
+  colors: [
+    { name: "Black", color: "#000000" },
+    { name: "Red", color: "#ff0000" },
+  ],
+  dotSize: 4,
+  misregistration: 0,
+  grain: 0,
+  noise: 0,
+  decomposeMethod: "exact",
+};
+
+describe("createHalftoneSvg", () => {
+  test("writes one group of circles per ink for AM round dots", () => {
+    const svg = createHalftoneSvg(grey(), baseOptions);
+    expect(svg.match(/<g data-ink=/g)).toHaveLength(2);
+    expect(svg).toContain("<circle");
+  });
+
+  test("rejects dot shapes other than round", () => {
+    expect(() => createHalftoneSvg(grey(), { ...baseOptions, dotShape: "square" })).toThrow(/round dots/);
+  });
+
+  test("rejects non-AM modes, including per-ink overrides", () => {
+    expect(() => createHalftoneSvg(grey(), { ...baseOptions, halftoneMode: "fm" })).toThrow(/AM halftoning/);
+    const colors = [baseOptions.colors[0], { ...baseOptions.colors[1], halftoneMode: "hybrid" as const }];
+    expect(() => createHalftoneSvg(grey(), { ...baseOptions, colors })).toThrow(/AM halftoning/);
+  });
+});
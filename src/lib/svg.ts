@@ -0,0 +1,117 @@
+/**
+ * AM ハーフトーンのベクター (SVG) 書き出し
+ *
+ * 網点をラスタ化せず <circle> として出力する。
+ * カッティングプロッタやレーザーカットでステンシルを作る用途を想定。
+ * DOM 非依存のため Web Worker からも呼び出し可能。
+ */
+
+import { listAMDots, type HalftoneOptions } from "./halftone";
+import { rgbToHex } from "./color";
+import { compensateDotGain } from "./dotgain";
+import {
+  computeDensityMaps,
+  misregistrationOffsets,
+  resolveAllInkSettings,
+  resolvePrintOrder,
+  resolveUnit,
+  DEFAULT_PAPER,
+  type ImageDataLike,
+  type StencilOptions,
+} from "./stencil";
+
+/** 座標値を小数 2 桁に丸める */
+function coord(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+/** XML 属性値のエスケープ */
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** SVG の円で表せない網点（AM 以外のモードや丸以外の網点形状）を使うインクがあるか。版ごとのモード指定も含めて判定する */
+export function needsRasterDots(options: StencilOptions): boolean {
+  return (
+    (options.dotShape ?? "round") !== "round" ||
+    resolveAllInkSettings(options).some((ink) => ink.halftoneMode !== "am")
+  );
+}
+
+/** SVG で表せない版の加工（ノックアウト・トラッピング）が指定されているか */
+export function needsRasterPlates(options: Pick<StencilOptions, "colors" | "trap">): boolean {
+  return (options.trap ?? 0) > 0 || options.colors.some((c) => c.overprint === "knockout");
+}
+
+/**
+ * AM ハーフトーンの網点を SVG 文書として生成する。
+ * インクごとに 1 つの <g>（mix-blend-mode: multiply）にまとめて刷り順に並べ、
+ * 紙色を背景の <rect> として敷く。版ずれは <g> の平行移動で表現する。
+ * 掠れノイズ・グレイン・ドットゲインのシミュレーションはラスタ効果のため含まない
+ * （ドットゲインの逆補正は版の一部として反映する）。
+ * 網点は真円で出力するため、AM 以外のモードのインクや丸以外の網点形状はエラーにする。
+ * ノックアウトとトラッピングも網点の形そのものを削ったり太らせたりするため円では表せず、
+ * 指定されている場合はエラーにする（Kubelka–Munk の混色も乗算で近似する）。
+ */
+export function createHalftoneSvg(
+  sourceData: ImageDataLike,
+  options: StencilOptions
+): string {
+  const {
+    colors, paperColor, paperStock = "none", compensateDotGain: compensate = false,
+    transparentBg = false, seed = 0, referenceWidth,
+  } = options;
+  if (needsRasterDots(options)) {
+    throw new Error("SVG export requires every ink to use AM halftoning with round dots");
+  }
+  if (needsRasterPlates(options)) {
+    throw new Error("SVG export does not support knockouts or trapping");
+  }
+  const { width, height } = sourceData;
+  const unit = resolveUnit(width, referenceWidth);
+  const inks = resolveAllInkSettings(options);
+  const densityMaps = computeDensityMaps(sourceData, options);
+  const offsets = misregistrationOffsets(inks.map((ink) => ink.misregistration), unit, seed);
+  const paper = paperColor ?? rgbToHex(DEFAULT_PAPER.r, DEFAULT_PAPER.g, DEFAULT_PAPER.b);
+
+  // 合成を SVG 内に閉じ込め、埋め込み先のページと乗算されないようにする
+  const lines: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <g style="isolation: isolate">`,
+  ];
+  if (!transparentBg) {
+    lines.push(`    <rect width="${width}" height="${height}" fill="${escapeXml(paper)}"/>`);
+  }
+
+  for (const ci of resolvePrintOrder(options)) {
+    const color = colors[ci];
+    const { dotSize, angle, density, inkOpacity } = inks[ci];
+    const halftoneOptions: HalftoneOptions = { dotSize, angle, density, pixelScale: unit };
+    const dots =
+      compensate && paperStock !== "none"
+        ? listAMDots(
+            compensateDotGain(densityMaps[ci], halftoneOptions, paperStock),
+            width,
+            height,
+            { ...halftoneOptions, density: 1 }
+          )
+        : listAMDots(densityMaps[ci], width, height, halftoneOptions);
+    const { x: ox, y: oy } = offsets[ci];
+    const transform = ox !== 0 || oy !== 0 ? ` transform="translate(${ox} ${oy})"` : "";
+    lines.push(
+      `    <g data-ink="${escapeXml(color.name)}" fill="${escapeXml(color.color)}" ` +
+        `fill-opacity="${inkOpacity}" style="mix-blend-mode: multiply"${transform}>`
+    );
+    for (const dot of dots) {
+      lines.push(`      <circle cx="${coord(dot.x)}" cy="${coord(dot.y)}" r="${coord(dot.radius)}"/>`);
+    }
+    lines.push("    </g>");
+  }
+
+  lines.push("  </g>", "</svg>");
+  return lines.join("\n");
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "vitest";
+import { computeStencil, tileMargin, type HalftoneMode, type StencilOptions } from "./stencil";
+import { cropPixels, planTiles } from "./tiledRenderer";
+
+const WIDTH = 150;
+const HEIGHT = 110;
+const TILE_SIZE = 48;
+
+/** 色・明るさが画像全体で変化するテスト画像 */
+function testImage() {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let i = 0; i < WIDTH * HEIGHT; i++) {
+    const x = i % WIDTH;
+    const y = (i / WIDTH) | 0;
+    data.set([(x * 7 + y * 3) % 256, (y * 5) % 256, (x * y) % 256, 255], i * 4);
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+/** tiledRenderer と同じ手順でタイルごとに処理し、のりしろを除いて継ぎ合わせる */
+function renderTiled(source: ReturnType<typeof testImage>, options: StencilOptions): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (const { core, padded } of planTiles(WIDTH, HEIGHT, TILE_SIZE, tileMargin(options, WIDTH))) {
+    const pixels = computeStencil(
+      { data: cropPixels(source, padded), width: padded.width, height: padded.height },
+      { ...options, region: { x: padded.x, y: padded.y, fullWidth: WIDTH, fullHeight: HEIGHT } }
+    );
+    for (let row = 0; row < core.height; row++) {
+      const src = ((core.y - padded.y + row) * padded.width + core.x - padded.x) * 4;
+      out.set(pixels.subarray(src, src + core.width * 4), ((core.y + row) * WIDTH + core.x) * 4);
+    }
+  }
+  return out;
+}
+
+const baseOptions: StencilOptions = {
+  colors: [
+    { name: "Bright Red", color: "#F15060" },
+    { name: "Blue", color: "#0078BF", overprint: "knockout" },
+    { name: "Yellow", color: "#FFE800" },
+  ],
+  dotSize: 4,
+  misregistration: 3,
+  trap: 2,
+  grain: 0.2,
+  noise: 0.2,
+  paperStock: "uncoated",
+  compensateDotGain: true,
+  colorMode: "bold",
+  referenceWidth: 120,
+  seed: 7,
+};
+
+const TILED_MODES: HalftoneMode[] = ["am", "fm", "ordered", "pattern", "hybrid", "solid", "levels"];
+
+describe("tiled rendering", () => {
+  test.each(TILED_MODES)("matches the untiled output in %s mode", (mode) => {
+    const source = testImage();
+    const options: StencilOptions = { ...baseOptions, halftoneMode: mode };
+    expect(Number.isFinite(tileMargin(options, WIDTH))).toBe(true);
+    expect(renderTiled(source, options)).toEqual(computeStencil(source, options));
+  });
+
+  test("falls back to a single pass for error diffusion", () => {
+    expect(tileMargin({ ...baseOptions, halftoneMode: "diffusion" }, WIDTH)).toBe(Infinity);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * タイル分割によるマルチ Worker 処理
+ *
+ * 大きな画像を重なり（のりしろ）付きのタイルに分割し、Worker プールで並列に処理して
+ * 継ぎ合わせる。格子・乱数・版ずれは全体画像の座標で計算されるため、
+ * のりしろが十分なら分割しない場合とピクセル単位で一致する。
+ */
+
+import {
+  tileMargin,
+  type ImageDataLike,
+  type StencilJobOptions,
+  type StencilOptions,
+} from "./stencil";
+import { createPreviewRenderer, type PreviewRenderer } from "./previewRenderer";
+
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TilePlan {
+  /** 出力に使う範囲 */
+  core: TileRect;
+  /** のりしろを含めて処理する範囲（画像内にクリップ済み） */
+  padded: TileRect;
+}
+
+/** タイルの一辺 (px) のデフォルト */
+const DEFAULT_TILE_SIZE = 512;
+
+/**
+ * 画像をタイルに分割する計画を立てる。
+ */
+export function planTiles(
+  width: number,
+  height: number,
+  tileSize: number,
+  margin: number
+): TilePlan[] {
+  const tiles: TilePlan[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      const core = {
+        x,
+        y,
+        width: Math.min(tileSize, width - x),
+        height: Math.min(tileSize, height - y),
+      };
+      const px = Math.max(0, x - margin);
+      const py = Math.max(0, y - margin);
+      const padded = {
+        x: px,
+        y: py,
+        width: Math.min(width, x + core.width + margin) - px,
+        height: Math.min(height, y + core.height + margin) - py,
+      };
+      tiles.push({ core, padded });
+    }
+  }
+  return tiles;
+}
+
+/** ソース画像から矩形範囲の RGBA ピクセルを切り出す */
+export function cropPixels(source: ImageDataLike, rect: TileRect): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(rect.width * rect.height * 4);
+  for (let row = 0; row < rect.height; row++) {
+    const start = ((rect.y + row) * source.width + rect.x) * 4;
+    out.set(source.data.subarray(start, start + rect.width * 4), row * rect.width * 4);
+  }
+  return out;
+}
+
+export interface TiledRenderOptions extends StencilJobOptions {
+  /** タイルの一辺 (px) */
+  tileSize?: number;
+}
+
+export interface TiledRenderer {
+  /** 画像をタイル分割して並列処理し、全体の合成結果を返す */
+  render(
+    source: ImageDataLike,
+    options: StencilOptions,
+    job?: TiledRenderOptions
+  ): Promise<Uint8ClampedArray>;
+  /** Worker プールを終了する */
+  dispose(): void;
+}
+
+/**
+ * Worker プールによるタイル分割レンダラーを生成する。
+ */
+export function createTiledRenderer(
+  workerCount = Math.min(navigator.hardwareConcurrency || 2, 8)
+): TiledRenderer {
+  const workers: PreviewRenderer[] = Array.from(
+    { length: Math.max(1, workerCount) },
+    () => createPreviewRenderer()
+  );
+
+  return {
+    async render(source, options, { signal, onProgress, tileSize = DEFAULT_TILE_SIZE } = {}) {
+      const { width, height } = source;
+      const margin = tileMargin(options, width);
+
+      // タイル単位で処理できない設定や小さい画像は 1 つの Worker で全体を処理する
+      if (!Number.isFinite(margin) || (width <= tileSize && height <= tileSize)) {
+        return workers[0].render(source, options, { signal, onProgress });
+      }
+
+      const tiles = planTiles(width, height, tileSize, margin);
+      const out = new Uint8ClampedArray(width * height * 4);
+      const tileProgress = new Float64Array(tiles.length);
+      const report = () => {
+        let sum = 0;
+        for (const p of tileProgress) sum += p;
+        onProgress?.(sum / tiles.length);
+      };
+
+      let next = 0;
+      const runWorker = async (worker: PreviewRenderer) => {
+        while (next < tiles.length) {
+          const ti = next++;
+          const { core, padded } = tiles[ti];
+          const pixels = await worker.render(
+            { data: cropPixels(source, padded), width: padded.width, height: padded.height },
+            {
+              ...options,
+              region: { x: padded.x, y: padded.y, fullWidth: width, fullHeight: height },
+            },
+            {
+              signal,
+              onProgress: (p) => {
+                tileProgress[ti] = p;
+                report();
+              },
+            }
+          );
+
+          // のりしろを除いた範囲を出力にコピー
+          const offX = core.x - padded.x;
+          const offY = core.y - padded.y;
+          for (let row = 0; row < core.height; row++) {
+            const src = ((offY + row) * padded.width + offX) * 4;
+            out.set(
+              pixels.subarray(src, src + core.width * 4),
+              ((core.y + row) * width + core.x) * 4
+            );
+          }
+          tileProgress[ti] = 1;
+          report();
+        }
+      };
+
+      await Promise.all(workers.map(runWorker));
+      return out;
+    },
+    dispose() {
+      for (const worker of workers) worker.dispose();
+    },
+  };
+}
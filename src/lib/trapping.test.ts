@@ -0,0 +1,87 @@
+import { describe, expect, test } from "vitest";
+import { dilate, trapMaps } from "./trapping";
+import { knockoutPlates, trapPlates, type StencilOptions, type StencilPlate } from "./stencil";
+
+const W = 12;
+const H = 8;
+
+/** x が [from, to) の範囲だけ被覆 1 の版 */
+function band(from: number, to: number): Float32Array {
+  const map = new Float32Array(W * H);
+  for (let y = 0; y < H; y++) {
+    for (let x = from; x < to; x++) map[y * W + x] = 1;
+  }
+  return map;
+}
+
+function plate(name: string, color: string, map: Float32Array, overprint: StencilPlate["overprint"] = "overprint"): StencilPlate {
+  return { name, color, map, inkOpacity: 1, opacityClass: "transparent", overprint, offsetX: 0, offsetY: 0 };
+}
+
+describe("dilate", () => {
+  test("grows a point into a disk of the given radius", () => {
+    const map = new Float32Array(W * H);
+    map[4 * W + 6] = 1;
+    const grown = dilate(map, W, H, 2);
+    expect(grown[4 * W + 8]).toBe(1);
+    expect(grown[2 * W + 6]).toBe(1);
+    expect(grown[3 * W + 7]).toBe(1);
+    expect(grown[2 * W + 8]).toBe(0);
+    expect(grown[4 * W + 9]).toBe(0);
+  });
+});
+
+describe("trapMaps", () => {
+  // 明るい版 (x < 6) と暗い版 (x ≥ 6) が突き合わせになっている
+  const light = band(0, 6);
+  const dark = band(6, W);
+
+  test("spreads the lighter ink under the darker ink only", () => {
+    const [trappedLight, trappedDark] = trapMaps([light, dark], [0.9, 0.1], W, H, 2);
+    expect(trappedDark).toBe(dark);
+    for (let y = 0; y < H; y++) {
+      expect(trappedLight[y * W + 6]).toBe(1);
+      expect(trappedLight[y * W + 7]).toBe(1);
+      expect(trappedLight[y * W + 8]).toBe(0);
+    }
+  });
+
+  test("does not spread onto bare paper", () => {
+    const [trapped] = trapMaps([band(2, 5), band(5, 7)], [0.9, 0.1], W, H, 3);
+    for (let y = 0; y < H; y++) {
+      expect(trapped[y * W + 0]).toBe(0);
+      expect(trapped[y * W + 1]).toBe(0);
+      expect(trapped[y * W + 7]).toBe(0);
+    }
+  });
+});
+
+describe("plate processing", () => {
+  const options: StencilOptions = {
+    colors: [
+      { name: "Yellow", color: "#FFE800" },
+      { name: "Blue", color: "#0078BF", overprint: "knockout" },
+    ],
+    dotSize: 4,
+    misregistration: 0,
+    grain: 0,
+  };
+
+  test("knocks a plate out of the inks printed before it", () => {
+    const plates = [plate("Yellow", "#FFE800", band(0, 8)), plate("Blue", "#0078BF", band(4, W), "knockout")];
+    const [yellow, blue] = knockoutPlates(plates, [0, 1]);
+    expect(yellow.map).toEqual(band(0, 4));
+    expect(blue).toBe(plates[1]);
+    // 後に刷る版は抜かない
+    const [later] = knockoutPlates(plates, [1, 0]);
+    expect(later).toBe(plates[0]);
+  });
+
+  test("traps in units of the reference width", () => {
+    const plates = [plate("Yellow", "#FFE800", band(0, 6)), plate("Blue", "#0078BF", band(6, W))];
+    const [yellow] = trapPlates(plates, W, H, { ...options, trap: 1, referenceWidth: W / 2 });
+    expect(yellow.map[7]).toBe(1);
+    expect(yellow.map[8]).toBe(0);
+    expect(trapPlates(plates, W, H, { ...options, trap: 0 })).toBe(plates);
+  });
+});
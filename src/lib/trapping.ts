@@ -0,0 +1,89 @@
+/**
+ * トラッピング（明るい版の太らせ）
+ *
+ * ノックアウトや大胆な色分離で色どうしが接する部分は、版ずれで隙間に紙が見える。
+ * 明るいインクの版を、暗いインクが刷られる部分へ少しだけ広げておくと、
+ * 版がずれても隙間ができず、広げた重なりは暗いインクに隠れて目立たない。
+ * 明るい色の形が暗い色に食い込めばスプレッド、暗い色の形の穴が狭まればチョークになる。
+ * 広げる処理は円盤の構造要素による濃淡の膨張（グレースケール dilation）で行う。
+ */
+
+/**
+ * 1 行の中心付近 [x − halfWidth, x + halfWidth] の最大値を out に書き込む。
+ * 単調キューで行の長さに比例する時間で求める。
+ */
+function rowMax(
+  src: Float32Array,
+  offset: number,
+  width: number,
+  halfWidth: number,
+  out: Float32Array,
+  queue: Int32Array
+): void {
+  let head = 0;
+  let tail = 0;
+  let next = 0;
+  for (let x = 0; x < width; x++) {
+    const hi = Math.min(width - 1, x + halfWidth);
+    while (next <= hi) {
+      const v = src[offset + next];
+      while (tail > head && src[offset + queue[tail - 1]] <= v) tail--;
+      queue[tail++] = next++;
+    }
+    while (queue[head] < x - halfWidth) head++;
+    out[x] = src[offset + queue[head]];
+  }
+}
+
+/**
+ * 被覆マップを半径 radius (px) の円盤で膨張させる。
+ * 円盤を行ごとの横幅に分解し、各行の区間最大値の最大を取る。画像の外は 0 とみなす。
+ */
+export function dilate(map: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const r = Math.round(radius);
+  if (r <= 0) return map;
+  // 中心からの縦の距離ごとの円盤の半幅
+  const halfWidths = Array.from({ length: r + 1 }, (_, dy) => Math.floor(Math.sqrt(r * r - dy * dy)));
+  const out = new Float32Array(width * height);
+  const row = new Float32Array(width);
+  const queue = new Int32Array(width);
+  for (let y = 0; y < height; y++) {
+    const dst = y * width;
+    for (let dy = -r; dy <= r; dy++) {
+      const sy = y + dy;
+      if (sy < 0 || sy >= height) continue;
+      rowMax(map, sy * width, width, halfWidths[Math.abs(dy)], row, queue);
+      for (let x = 0; x < width; x++) {
+        if (row[x] > out[dst + x]) out[dst + x] = row[x];
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * 各版を、それより暗いインクの版が刷られる部分へ radius (px) だけ広げる。
+ * lightness はインクの明るさで、値が小さいほど暗い。
+ * 暗いインクのない部分（紙の上）には広げないため、絵柄の外形は変わらない。
+ */
+export function trapMaps(
+  maps: Float32Array[],
+  lightness: number[],
+  width: number,
+  height: number,
+  radius: number
+): Float32Array[] {
+  return maps.map((map, i) => {
+    const darker = maps.filter((_, j) => lightness[j] < lightness[i]);
+    if (darker.length === 0) return map;
+    const grown = dilate(map, width, height, radius);
+    if (grown === map) return map;
+    const out = new Float32Array(map.length);
+    for (let p = 0; p < map.length; p++) {
+      let under = 0;
+      for (const d of darker) if (d[p] > under) under = d[p];
+      out[p] = Math.max(map[p], Math.min(grown[p], under));
+    }
+    return out;
+  });
+}
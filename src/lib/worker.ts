@@ -0,0 +1,25 @@
+import type { WorkerInput, WorkerResponse } from "./stencil.worker";
+
+/**
+ * 使い捨ての Web Worker でステンシル処理を 1 回実行する。
+ * 入力のピクセルバッファは転送されるため、呼び出し後は使えなくなる。
+ */
+export function runStencilWorker<T>(input: WorkerInput): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const worker = new Worker(
+      new URL("./stencil.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    worker.onmessage = (e: MessageEvent<WorkerResponse<T>>) => {
+      const res = e.data;
+      if (res.type === "result") resolve(res.value);
+      else reject(new Error(res.message));
+      worker.terminate();
+    };
+    worker.onerror = (e) => {
+      reject(new Error(e.message));
+      worker.terminate();
+    };
+    worker.postMessage(input, [input.data.buffer]);
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * ZIP アーカイブ生成
+ *
+ * PNG などすでに圧縮済みのファイルをまとめる用途のため、
+ * 無圧縮 (STORE) で格納する。ブラウザ内で完結し外部ライブラリを使わない。
+ */
+
+export interface ZipEntry {
+  /** アーカイブ内のファイル名 (UTF-8) */
+  name: string;
+  /** ファイルの中身 */
+  data: Uint8Array;
+}
+
+/** CRC-32 (IEEE 802.3) のテーブル */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 チェックサムを計算する */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Date を MS-DOS 形式の時刻・日付に変換する */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      (date.getSeconds() >> 1),
+    date:
+      ((year - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * ファイル群を 1 つの ZIP アーカイブにまとめる。
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modified);
+  // 汎用フラグ bit 11: ファイル名が UTF-8
+  const FLAG_UTF8 = 0x0800;
+
+  const names = entries.map((e) => encoder.encode(e.name));
+  const crcs = entries.map((e) => crc32(e.data));
+
+  const localSize = entries.reduce(
+    (sum, e, i) => sum + 30 + names[i].length + e.data.length,
+    0
+  );
+  const centralSize = names.reduce((sum, n) => sum + 46 + n.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  // ローカルファイルヘッダ + データ
+  const offsets: number[] = [];
+  let pos = 0;
+  for (let i = 0; i < entries.length; i++) {
+    const { data } = entries[i];
+    offsets.push(pos);
+    view.setUint32(pos, 0x04034b50, true);
+    view.setUint16(pos + 4, 20, true); // 展開に必要なバージョン
+    view.setUint16(pos + 6, FLAG_UTF8, true);
+    view.setUint16(pos + 8, 0, true); // 圧縮方式: STORE
+    view.setUint16(pos + 10, dos.time, true);
+    view.setUint16(pos + 12, dos.date, true);
+    view.setUint32(pos + 14, crcs[i], true);
+    view.setUint32(pos + 18, data.length, true);
+    view.setUint32(pos + 22, data.length, true);
+    view.setUint16(pos + 26, names[i].length, true);
+    view.setUint16(pos + 28, 0, true);
+    out.set(names[i], pos + 30);
+    pos += 30 + names[i].length;
+    out.set(data, pos);
+    pos += data.length;
+  }
+
+  // セントラルディレクトリ
+  const centralStart = pos;
+  for (let i = 0; i < entries.length; i++) {
+    const { data } = entries[i];
+    view.setUint32(pos, 0x02014b50, true);
+    view.setUint16(pos + 4, 20, true); // 作成バージョン
+    view.setUint16(pos + 6, 20, true); // 展開に必要なバージョン
+    view.setUint16(pos + 8, FLAG_UTF8, true);
+    view.setUint16(pos + 10, 0, true);
+    view.setUint16(pos + 12, dos.time, true);
+    view.setUint16(pos + 14, dos.date, true);
+    view.setUint32(pos + 16, crcs[i], true);
+    view.setUint32(pos + 20, data.length, true);
+    view.setUint32(pos + 24, data.length, true);
+    view.setUint16(pos + 28, names[i].length, true);
+    // extra / comment / disk / 属性はすべて 0
+    view.setUint32(pos + 42, offsets[i], true);
+    out.set(names[i], pos + 46);
+    pos += 46 + names[i].length;
+  }
+
+  // セントラルディレクトリ終端レコード
+  view.setUint32(pos, 0x06054b50, true);
+  view.setUint16(pos + 8, entries.length, true);
+  view.setUint16(pos + 10, entries.length, true);
+  view.setUint32(pos + 12, pos - centralStart, true);
+  view.setUint32(pos + 16, centralStart, true);
+
+  return out;
+}
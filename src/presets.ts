@@ -1,8 +1,11 @@
 import type { StencilColor } from "./lib/stencil";
 
-/** ステンシル印刷で実際に使われる代表的なインクカラー */
+/**
+ * ステンシル印刷で実際に使われる代表的なインクカラー。
+ * 白・メタリックは下地を隠す不透明インク、蛍光色は半透明インクとして扱う（Kubelka–Munk モデル用）
+ */
 export const INKS = {
-  white: { name: "White", color: "#FFFFFF" },
+  white: { name: "White", color: "#FFFFFF", opacityClass: "opaque" },
   black: { name: "Black", color: "#000000" },
   burgundy: { name: "Burgundy", color: "#914E72" },
   blue: { name: "Blue", color: "#0078BF" },
@@ -12,16 +15,16 @@ export const INKS = {
   federalBlue: { name: "Federal Blue", color: "#3D5588" },
   purple: { name: "Purple", color: "#765BA7" },
   teal: { name: "Teal", color: "#00838A" },
-  gold: { name: "Gold", color: "#CFB53B" },
-  silver: { name: "Silver", color: "#C0C0C0" },
-  bronze: { name: "Bronze", color: "#CD7F32" },
-  flatGold: { name: "Flat Gold", color: "#BB8B41" },
+  gold: { name: "Gold", color: "#CFB53B", opacityClass: "opaque" },
+  silver: { name: "Silver", color: "#C0C0C0", opacityClass: "opaque" },
+  bronze: { name: "Bronze", color: "#CD7F32", opacityClass: "opaque" },
+  flatGold: { name: "Flat Gold", color: "#BB8B41", opacityClass: "opaque" },
   hunterGreen: { name: "Hunter Green", color: "#407060" },
   red: { name: "Red", color: "#FF665E" },
   orange: { name: "Orange", color: "#FF6C2F" },
   yellow: { name: "Yellow", color: "#FFE800" },
-  fluorescentPink: { name: "Fluorescent Pink", color: "#FF48B0" },
-  fluorescentOrange: { name: "Fluorescent Orange", color: "#FF7477" },
+  fluorescentPink: { name: "Fluorescent Pink", color: "#FF48B0", opacityClass: "semi-opaque" },
+  fluorescentOrange: { name: "Fluorescent Orange", color: "#FF7477", opacityClass: "semi-opaque" },
   cornflower: { name: "Cornflower", color: "#62A8E5" },
   skyBlue: { name: "Sky Blue", color: "#4982CF" },
   seaBlue: { name: "Sea Blue", color: "#0074A2" },
@@ -64,17 +67,17 @@ export const INKS = {
   paprika: { name: "Paprika", color: "#EE5D31" },
   pumpkin: { name: "Pumpkin", color: "#FF6F31" },
   brightOlive: { name: "Bright Olive", color: "#B49F29" },
-  brightGold: { name: "Bright Gold", color: "#BA8032" },
-  copper: { name: "Copper", color: "#BD6439" },
+  brightGold: { name: "Bright Gold", color: "#BA8032", opacityClass: "opaque" },
+  copper: { name: "Copper", color: "#BD6439", opacityClass: "opaque" },
   mahogany2: { name: "Mahogany", color: "#8E595A" },
   bisque: { name: "Bisque", color: "#F2CDCF" },
   peach: { name: "Peach", color: "#FF9E6C" },
   salmon: { name: "Salmon", color: "#FF8F8F" },
   lightTeal: { name: "Light Teal", color: "#009DA5" },
   warmRed: { name: "Warm Red", color: "#FF4C65" },
-  fluorescentGreen: { name: "Fl. Green", color: "#44D62C" },
-  fluorescentBlue: { name: "Fl. Blue", color: "#4FDBF0" },
-  fluorescentYellow: { name: "Fl. Yellow", color: "#FFE916" },
+  fluorescentGreen: { name: "Fl. Green", color: "#44D62C", opacityClass: "semi-opaque" },
+  fluorescentBlue: { name: "Fl. Blue", color: "#4FDBF0", opacityClass: "semi-opaque" },
+  fluorescentYellow: { name: "Fl. Yellow", color: "#FFE916", opacityClass: "semi-opaque" },
 } as const satisfies Record<string, StencilColor>;
 
 /** 代表的な色の組み合わせプリセット */
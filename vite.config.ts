@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from "path"
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
@@ -11,4 +12,8 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    // 画像処理を実際に通すテストがあるため、既定の 5 秒では遅いマシンで打ち切られる
+    testTimeout: 30_000,
+  },
 })